@@ -1,11 +1,14 @@
 import { useState, useEffect } from "react";
-import { BrowserRouter, Routes, Route, Navigate, useParams } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useParams, useSearchParams, Link } from "react-router-dom";
 import { signInWithGoogle, signOut, onAuthChanged } from "@/lib/auth";
 import type { User } from "firebase/auth";
 import LandingPage from "@/pages/LandingPage";
 import ChatRoom from "@/pages/ChatRoom";
+import SnapshotView from "@/pages/SnapshotView";
 import { disconnectSocket } from "@/lib/socket";
 import MobileBlocker from "@/components/MobileBlocker";
+import { Toaster } from "@/components/ui/toaster";
+import { INVITE_PROBLEM_MESSAGES, savePendingInvite, validateInvite } from "@/lib/invites";
 
 interface ProtectedRouteProps {
   user: User | null;
@@ -22,25 +25,83 @@ const ProtectedRoute = ({ user, children }: ProtectedRouteProps) => {
 // Component to handle joining a specific room
 const JoinRoom = ({ user, onSignOut }: { user: User | null, onSignOut: () => Promise<void> }) => {
   const { roomId } = useParams<{ roomId: string }>();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite') || undefined;
+  // Invite links are checked before joining; null while checking
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [inviteChecked, setInviteChecked] = useState(!inviteToken);
 
-  // Store room ID in localStorage when navigating directly to a room
   useEffect(() => {
-    if (roomId) {
+    if (!roomId || !inviteToken || !user) return;
+
+    let cancelled = false;
+    setInviteChecked(false);
+    setInviteError(null);
+
+    validateInvite(roomId, inviteToken)
+      .then((result) => {
+        if (cancelled) return;
+        setInviteError(result.valid ? null : INVITE_PROBLEM_MESSAGES[result.problem]);
+      })
+      .catch((error) => {
+        console.error("Error validating invite:", error);
+        if (!cancelled) setInviteError("We couldn't check this invite link. Please try again.");
+      })
+      .finally(() => {
+        if (!cancelled) setInviteChecked(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, inviteToken, user]);
+
+  // Signing in goes through the landing page, which would lose the invite;
+  // keep it so we can come back here afterwards
+  useEffect(() => {
+    if (roomId && inviteToken && !user) {
+      savePendingInvite(roomId, inviteToken);
+    }
+  }, [roomId, inviteToken, user]);
+
+  // Store room ID in localStorage when navigating directly to a room,
+  // unless its invite link turned out to be unusable
+  useEffect(() => {
+    if (roomId && inviteChecked && !inviteError) {
       localStorage.setItem('lastRoomId', roomId);
     }
-  }, [roomId]);
+  }, [roomId, inviteChecked, inviteError]);
 
   // Handle invalid roomId
   if (!roomId) {
     return <Navigate to="/chat" replace />;
   }
 
+  if (user && !inviteChecked) {
+    return (
+      <div className="min-h-screen bg-gray-950 text-white flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  if (user && inviteError) {
+    return (
+      <div className="min-h-screen bg-gray-950 text-white flex flex-col items-center justify-center gap-4 text-center p-6">
+        <h1 className="text-2xl font-semibold">Can't join this chat</h1>
+        <p className="text-gray-400 max-w-md">{inviteError} Ask the chat owner for a new link.</p>
+        <Link to="/chat" className="text-blue-400 hover:text-blue-300">Go to your chats</Link>
+      </div>
+    );
+  }
+
   return (
     <ProtectedRoute user={user}>
       <ChatRoom
         user={user}
         onSignOut={onSignOut}
         roomId={roomId}
+        inviteToken={inviteToken}
         key={`room-${roomId}`} // Add a key prop using roomId to force remounting when room changes
       />
     </ProtectedRoute>
@@ -146,7 +207,10 @@ function App() {
           path="/join/:roomId"
           element={<JoinRoom user={user} onSignOut={handleSignOut} />}
         />
+        {/* Published snapshots are public, so no ProtectedRoute */}
+        <Route path="/s/:snapshotId" element={<SnapshotView />} />
       </Routes>
+      <Toaster />
     </BrowserRouter>
   );
 }
@@ -6,7 +6,17 @@ import { Button } from "./ui/button";
 import { useNavigate } from "react-router-dom";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "./ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
-import { createRoom, deleteUserChat } from "@/lib/socket";
+import { createRoom, deleteUserChat, onSocketEvent } from "@/lib/socket";
+import { toast } from "@/hooks/use-toast";
+
+// How long a deleted chat can still be restored
+const UNDO_WINDOW = 5000;
+
+// Deletions waiting out their undo window, keyed by room ID. Kept outside the
+// component since leaving the deleted room remounts the sidebar.
+const pendingDeletes = new Map<string, ReturnType<typeof setTimeout>>();
+// Reloads every mounted history, so an undone deletion shows up again
+const reloadListeners = new Set<() => void>();
 
 interface ChatHistoryProps {
     user: User | null;
@@ -20,7 +30,6 @@ export default function ChatHistory({ user, currentRoomId, onRoomSelect }: ChatH
     const [error, setError] = useState<string | null>(null);
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
     const [roomToDelete, setRoomToDelete] = useState<string | null>(null);
-    const [isDeleting, setIsDeleting] = useState(false);
     const navigate = useNavigate();
 
     // Function to load rooms - extracted for reuse
@@ -34,7 +43,8 @@ export default function ChatHistory({ user, currentRoomId, onRoomSelect }: ChatH
         setError(null);
         try {
             const userRooms = await getUserChatRooms(user);
-            setRooms(userRooms);
+            // Don't bring back chats that are about to be deleted
+            setRooms(userRooms.filter(room => !pendingDeletes.has(room.id)));
         } catch (err) {
             console.error("Error loading chat history:", err);
             setError("Failed to load chat history");
@@ -49,7 +59,11 @@ export default function ChatHistory({ user, currentRoomId, onRoomSelect }: ChatH
 
         // Refresh chat history every 30 seconds
         const interval = setInterval(loadRooms, 30000);
-        return () => clearInterval(interval);
+        reloadListeners.add(loadRooms);
+        return () => {
+            clearInterval(interval);
+            reloadListeners.delete(loadRooms);
+        };
     }, [user]);
 
     // Reload when current room changes
@@ -62,6 +76,20 @@ export default function ChatHistory({ user, currentRoomId, onRoomSelect }: ChatH
         }
     }, [currentRoomId]);
 
+    // Keep titles in sync when anyone renames a room we're connected to
+    useEffect(() => {
+        return onSocketEvent('chat-info-updated', (data) => {
+            const { title, description } = data.chatInfo;
+            if (title === undefined && description === undefined) return;
+
+            setRooms(prev => prev.map(room => room.id === data.roomId ? {
+                ...room,
+                title: title ?? room.title,
+                description: description ?? room.description
+            } : room));
+        });
+    }, []);
+
     const handleRoomSelect = (roomId: string) => {
         if (onRoomSelect) {
             onRoomSelect(roomId);
@@ -70,89 +98,115 @@ export default function ChatHistory({ user, currentRoomId, onRoomSelect }: ChatH
         }
     };
 
-    const handleDeleteRoom = async () => {
-        if (!roomToDelete || !user) return;
+    // Remove the chat from the server once its Undo window has passed
+    const finishDeleteRoom = async (roomId: string, isLastChat: boolean) => {
+        if (!user) return;
 
         try {
-            setIsDeleting(true);
-            console.log(`Attempting to delete chat ${roomToDelete} for user ${user.uid}`);
+            // deleteUserChat will also emit the leave-room event before deleting
+            const success = await deleteUserChat(user.uid, roomId);
+            console.log(`Delete API call result:`, success);
+        } catch (apiError) {
+            console.error("API error during deletion:", apiError);
 
-            // Force remove from UI state immediately for responsive UX
-            const filteredRooms = rooms.filter(room => room.id !== roomToDelete);
-            setRooms(filteredRooms);
-
-            // Preemptively navigate if it's the current room
-            if (roomToDelete === currentRoomId) {
-                console.log(`Navigating away from deleted room ${roomToDelete}`);
-                navigate('/chat');
-            }
-
-            // Prepare for auto-creating a new chat if this was the last one
-            const isLastChat = rooms.length === 1;
-
-            // Now try the API call (but UI is already updated)
-            let success = false;
+            // Even if the API fails, we'll implement a fallback local deletion
+            // by manually removing from localStorage as well
             try {
-                // deleteUserChat will also emit the leave-room event before deleting
-                success = await deleteUserChat(user.uid, roomToDelete);
-                console.log(`Delete API call result:`, success);
-            } catch (apiError) {
-                console.error("API error during deletion:", apiError);
-
-                // Even if the API fails, we'll implement a fallback local deletion
-                // by manually removing from localStorage as well
-                try {
-                    // Remove from localStorage cache if present
-                    const cachedRooms = localStorage.getItem(`chat_rooms_${user.uid}`);
-                    if (cachedRooms) {
-                        const parsedRooms = JSON.parse(cachedRooms);
-                        const updatedRooms = parsedRooms.filter((room: any) => room.id !== roomToDelete);
-                        localStorage.setItem(`chat_rooms_${user.uid}`, JSON.stringify(updatedRooms));
-                        console.log("Removed chat from localStorage cache");
-                    }
-                } catch (localError) {
-                    console.error("Failed local cache cleanup:", localError);
+                // Remove from localStorage cache if present
+                const cachedRooms = localStorage.getItem(`chat_rooms_${user.uid}`);
+                if (cachedRooms) {
+                    const parsedRooms = JSON.parse(cachedRooms);
+                    const updatedRooms = parsedRooms.filter((room: any) => room.id !== roomId);
+                    localStorage.setItem(`chat_rooms_${user.uid}`, JSON.stringify(updatedRooms));
+                    console.log("Removed chat from localStorage cache");
                 }
+            } catch (localError) {
+                console.error("Failed local cache cleanup:", localError);
             }
+        }
+
+        // If this was the last chat, create a new one automatically
+        if (isLastChat) {
+            try {
+                console.log("Creating new chat after deleting the last one");
+                const newRoomId = await createRoom();
+
+                // Minor delay to allow backend to set up the room
+                await new Promise(resolve => setTimeout(resolve, 500));
 
-            // If this was the last chat, create a new one automatically
-            if (isLastChat) {
-                try {
-                    console.log("Creating new chat after deleting the last one");
-                    const newRoomId = await createRoom();
-
-                    // Minor delay to allow backend to set up the room
-                    await new Promise(resolve => setTimeout(resolve, 500));
-
-                    // Navigate to the new room
-                    navigate(`/join/${newRoomId}`);
-                    console.log(`Created and navigating to new room: ${newRoomId}`);
-                } catch (createError) {
-                    console.error("Failed to create new room after deleting the last one:", createError);
-                    // Force reload the page as last resort
+                // Navigate to the new room
+                navigate(`/join/${newRoomId}`);
+                console.log(`Created and navigating to new room: ${newRoomId}`);
+            } catch (createError) {
+                console.error("Failed to create new room after deleting the last one:", createError);
+                toast({ variant: "error", title: "Couldn't start a new chat", description: "Reloading to recover..." });
+                // Force reload the page as last resort
+                setTimeout(() => {
                     window.location.href = '/chat';
-                }
+                }, 1500);
             }
+        }
+    };
 
-            // Close the dialog
-            setDeleteDialogOpen(false);
-            setRoomToDelete(null);
-        } catch (error) {
-            console.error("Failed to delete chat:", error);
-            // Show an error state or message to the user
-            setError(`Failed to delete chat: ${error instanceof Error ? error.message : 'Unknown error'}`);
-
-            // Force reload to get fresh data
-            setTimeout(() => {
-                loadRooms();
-            }, 1000);
-
-            // Close the dialog even on error
-            setDeleteDialogOpen(false);
-            setRoomToDelete(null);
-        } finally {
-            setIsDeleting(false);
+    // Hide the chat right away, but give the user a moment to undo before deleting it
+    const handleDeleteRoom = () => {
+        if (!roomToDelete || !user) return;
+
+        const roomId = roomToDelete;
+        const index = rooms.findIndex(room => room.id === roomId);
+        const deletedRoom = rooms[index];
+        const isCurrentRoom = roomId === currentRoomId;
+        // Prepare for auto-creating a new chat if this was the last one; leaving
+        // the current room already opens a new chat when there's none left
+        const isLastChat = rooms.length === 1 && !isCurrentRoom;
+
+        console.log(`Deleting chat ${roomId} for user ${user.uid} after the undo window`);
+        setRooms(prev => prev.filter(room => room.id !== roomId));
+
+        // Preemptively navigate if it's the current room, somewhere other than
+        // back into it: /chat opens the last room, or a new one if there is none
+        if (isCurrentRoom) {
+            console.log(`Navigating away from deleted room ${roomId}`);
+            const nextRoom = rooms.find(room => room.id !== roomId);
+            if (nextRoom) {
+                localStorage.setItem('lastRoomId', nextRoom.id);
+            } else {
+                localStorage.removeItem('lastRoomId');
+            }
+            navigate('/chat');
         }
+
+        setDeleteDialogOpen(false);
+        setRoomToDelete(null);
+
+        pendingDeletes.set(roomId, setTimeout(() => {
+            pendingDeletes.delete(roomId);
+            finishDeleteRoom(roomId, isLastChat);
+        }, UNDO_WINDOW));
+
+        toast({
+            variant: "success",
+            title: "Chat deleted",
+            description: deletedRoom?.title,
+            duration: UNDO_WINDOW,
+            dedupeKey: `delete-chat-${roomId}`,
+            action: {
+                label: "Undo",
+                onClick: () => {
+                    clearTimeout(pendingDeletes.get(roomId));
+                    pendingDeletes.delete(roomId);
+                    if (deletedRoom) {
+                        setRooms(prev => {
+                            const restored = [...prev];
+                            restored.splice(Math.min(index, restored.length), 0, deletedRoom);
+                            return restored;
+                        });
+                    }
+                    // The sidebar may have remounted since, with its own list
+                    reloadListeners.forEach(reload => reload());
+                }
+            }
+        });
     };
 
     // Format date for display
@@ -268,7 +322,6 @@ export default function ChatHistory({ user, currentRoomId, onRoomSelect }: ChatH
                     <AlertDialogFooter>
                         <AlertDialogCancel
                             className="bg-gray-800 text-white hover:bg-gray-700 border-gray-700"
-                            disabled={isDeleting}
                         >
                             Cancel
                         </AlertDialogCancel>
@@ -278,16 +331,8 @@ export default function ChatHistory({ user, currentRoomId, onRoomSelect }: ChatH
                                 e.preventDefault();
                                 handleDeleteRoom();
                             }}
-                            disabled={isDeleting}
                         >
-                            {isDeleting ? (
-                                <>
-                                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                                    Deleting...
-                                </>
-                            ) : (
-                                "Delete"
-                            )}
+                            Delete
                         </AlertDialogAction>
                     </AlertDialogFooter>
                 </AlertDialogContent>
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from "react";
+import { User } from "firebase/auth";
+import { AlertTriangle, Loader2, MessageSquare, Search, X } from "lucide-react";
+import { Input } from "./ui/input";
+import { searchChats, type SearchHit, type SnippetPart } from "@/lib/search";
+
+// Shorter queries match too much to be useful
+const MIN_QUERY_LENGTH = 2;
+// Wait for typing to pause before searching
+const SEARCH_DELAY = 300;
+
+interface ChatSearchProps {
+    user: User | null;
+    // Message ID is only passed for message hits
+    onResultSelect: (roomId: string, messageId?: string) => void;
+    // Shown while there is no search, usually the chat history
+    children: React.ReactNode;
+}
+
+const Snippet = ({ parts }: { parts: SnippetPart[] }) => (
+    <>
+        {parts.map((part, i) => part.match ? (
+            <mark key={i} className="bg-yellow-500/30 text-yellow-100 rounded px-0.5">{part.text}</mark>
+        ) : (
+            <span key={i}>{part.text}</span>
+        ))}
+    </>
+);
+
+// Search box for the sidebar; replaces its content with results while searching
+export function ChatSearch({ user, onResultSelect, children }: ChatSearchProps) {
+    const [query, setQuery] = useState("");
+    const [results, setResults] = useState<SearchHit[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    // Shown above the results when the search failed or missed some chats
+    const [searchError, setSearchError] = useState<string | null>(null);
+    // Incremented per search so a slow, older one can't overwrite newer results
+    const searchIdRef = useRef(0);
+    const trimmed = query.trim();
+    const isActive = trimmed.length >= MIN_QUERY_LENGTH;
+
+    useEffect(() => {
+        const searchId = ++searchIdRef.current;
+        if (!isActive) {
+            setResults([]);
+            setSearchError(null);
+            setIsSearching(false);
+            return;
+        }
+
+        setIsSearching(true);
+        const timer = setTimeout(async () => {
+            try {
+                const { hits, failedRooms } = await searchChats(user, trimmed, () => searchId !== searchIdRef.current);
+                if (searchId !== searchIdRef.current) return;
+                setResults(hits);
+                setSearchError(failedRooms === 0 ? null
+                    : `${failedRooms} ${failedRooms === 1 ? "chat" : "chats"} couldn't be searched`);
+            } catch (error) {
+                console.error("Error searching chats:", error);
+                if (searchId === searchIdRef.current) {
+                    setResults([]);
+                    setSearchError("Couldn't search your chats");
+                }
+            } finally {
+                if (searchId === searchIdRef.current) setIsSearching(false);
+            }
+        }, SEARCH_DELAY);
+
+        return () => clearTimeout(timer);
+    }, [trimmed, isActive, user]);
+
+    return (
+        <>
+            <div className="relative px-1 pb-2">
+                <Search size={14} className="absolute left-3.5 top-2.5 text-gray-400 pointer-events-none" />
+                <Input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === "Escape") setQuery("");
+                    }}
+                    placeholder="Search chats"
+                    aria-label="Search all chats"
+                    className="h-8 pl-8 pr-8 bg-gray-900 border-gray-700 text-sm text-white"
+                />
+                {query && (
+                    <button
+                        type="button"
+                        className="absolute right-3 top-2 text-gray-400 hover:text-white"
+                        onClick={() => setQuery("")}
+                        title="Clear search"
+                    >
+                        <X size={14} />
+                    </button>
+                )}
+            </div>
+
+            {isActive && !isSearching && searchError && (
+                <div className="flex items-center gap-1.5 text-xs text-yellow-300 px-2 pb-1">
+                    <AlertTriangle size={12} className="flex-shrink-0" />
+                    <span>{searchError}</span>
+                </div>
+            )}
+
+            {!isActive ? children : isSearching ? (
+                <div className="flex justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                </div>
+            ) : results.length === 0 ? (
+                <div className="text-center py-4">
+                    <p className="text-sm text-gray-400">No chats match "{trimmed}"</p>
+                </div>
+            ) : (
+                <div className="space-y-1">
+                    <div className="text-xs text-gray-400 px-2 pt-2 pb-1">
+                        {results.length} {results.length === 1 ? "result" : "results"}
+                    </div>
+                    {results.map((hit) => (
+                        <button
+                            key={`${hit.roomId}-${hit.messageId || "title"}`}
+                            type="button"
+                            className="w-full text-left rounded px-3 py-2 hover:bg-gray-700/50"
+                            onClick={() => onResultSelect(hit.roomId, hit.messageId)}
+                        >
+                            <div className="flex items-center gap-2 text-xs text-gray-400">
+                                <MessageSquare size={12} className="flex-shrink-0" />
+                                <span className="truncate font-medium text-gray-300">
+                                    {hit.messageId ? hit.roomTitle : <Snippet parts={hit.snippet} />}
+                                </span>
+                                <span className="ml-auto flex-shrink-0">{hit.timestamp.toLocaleDateString()}</span>
+                            </div>
+                            {hit.messageId && (
+                                <p className="text-sm text-gray-200 mt-1 line-clamp-3 break-words">
+                                    {hit.userName && <span className="text-gray-400">{hit.userName}: </span>}
+                                    <Snippet parts={hit.snippet} />
+                                </p>
+                            )}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Activity, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+    getConnectionInfo,
+    measureLatency,
+    onConnectionChange,
+    reconnectSocket,
+    testConnection,
+    type ConnectionInfo,
+    type ConnectionState
+} from "@/lib/socket";
+
+// How often to ping the server while connected
+const LATENCY_INTERVAL = 15000;
+
+const STATE_STYLES: Record<ConnectionState, { label: string, dot: string }> = {
+    connected: { label: "Connected", dot: "bg-green-500" },
+    reconnecting: { label: "Reconnecting", dot: "bg-yellow-500 animate-pulse" },
+    offline: { label: "Offline", dot: "bg-red-500" },
+};
+
+// Header indicator for the socket connection, with details and controls on click
+export function ConnectionStatus() {
+    const [info, setInfo] = useState<ConnectionInfo>(getConnectionInfo());
+    const [testResult, setTestResult] = useState<{ success: boolean, message: string } | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    useEffect(() => onConnectionChange(setInfo), []);
+
+    // Keep the latency reading fresh while connected
+    useEffect(() => {
+        if (info.state !== "connected") return;
+
+        measureLatency();
+        const interval = setInterval(measureLatency, LATENCY_INTERVAL);
+        return () => clearInterval(interval);
+    }, [info.state]);
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        setTestResult(await testConnection());
+        setIsTesting(false);
+    };
+
+    const { label, dot } = STATE_STYLES[info.state];
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="flex gap-1.5 items-center text-gray-300 hover:text-white hover:bg-gray-700"
+                    title="Connection status"
+                >
+                    <span className={`h-2 w-2 rounded-full ${dot}`} />
+                    <span className="text-xs">
+                        {info.state === "connected" && info.latency !== null ? `${info.latency} ms` : label}
+                    </span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64 bg-gray-800 border-gray-700 p-3 text-sm text-gray-200">
+                <div className="flex items-center gap-2 font-medium mb-2">
+                    <span className={`h-2 w-2 rounded-full ${dot}`} />
+                    {label}
+                </div>
+                <dl className="grid grid-cols-2 gap-y-1 text-xs">
+                    <dt className="text-gray-400">Transport</dt>
+                    <dd>
+                        {info.transport || "—"}
+                        {info.transport === "polling" && (
+                            <span className="text-yellow-400" title="Websocket failed, falling back to long polling"> (fallback)</span>
+                        )}
+                    </dd>
+                    <dt className="text-gray-400">Latency</dt>
+                    <dd>{info.latency !== null ? `${info.latency} ms` : "—"}</dd>
+                    <dt className="text-gray-400">Reconnect attempts</dt>
+                    <dd>{info.reconnectAttempts}</dd>
+                    {info.lastError && info.state !== "connected" && (
+                        <>
+                            <dt className="text-gray-400">Last error</dt>
+                            <dd className="text-red-300 break-words">{info.lastError}</dd>
+                        </>
+                    )}
+                </dl>
+
+                <div className="flex gap-2 mt-3">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 flex-1 text-xs bg-transparent border-gray-600 hover:bg-gray-700"
+                        onClick={reconnectSocket}
+                    >
+                        <RefreshCw size={12} />
+                        Reconnect
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 flex-1 text-xs bg-transparent border-gray-600 hover:bg-gray-700"
+                        onClick={handleTest}
+                        disabled={isTesting}
+                    >
+                        {isTesting ? <Loader2 size={12} className="animate-spin" /> : <Activity size={12} />}
+                        Test server
+                    </Button>
+                </div>
+
+                {testResult && (
+                    <p className={`mt-2 text-xs ${testResult.success ? "text-green-300" : "text-red-300"}`}>
+                        {testResult.message}
+                    </p>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
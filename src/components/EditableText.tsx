@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Pencil } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface EditableTextProps {
+    value: string;
+    onSave: (value: string) => void;
+    placeholder?: string;
+    maxLength?: number;
+    className?: string;
+    inputClassName?: string;
+    // Allow saving an empty value (e.g. clearing a description)
+    allowEmpty?: boolean;
+    // Show the value as plain text, for people who can't change it
+    readOnly?: boolean;
+}
+
+// Text that turns into an input when clicked; Enter saves, Escape cancels
+export function EditableText({
+    value,
+    onSave,
+    placeholder,
+    maxLength = 100,
+    className,
+    inputClassName,
+    allowEmpty = false,
+    readOnly = false
+}: EditableTextProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(value);
+
+    const startEditing = () => {
+        setDraft(value);
+        setIsEditing(true);
+    };
+
+    const save = () => {
+        const trimmed = draft.trim();
+        setIsEditing(false);
+        if ((trimmed || allowEmpty) && trimmed !== value) {
+            onSave(trimmed);
+        }
+    };
+
+    if (readOnly) {
+        return (
+            <div className={cn("max-w-full", className)}>
+                <span className={cn("block truncate", !value && "text-gray-500 italic")}>{value || placeholder}</span>
+            </div>
+        );
+    }
+
+    if (isEditing) {
+        return (
+            <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={save}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                        e.preventDefault();
+                        save();
+                    } else if (e.key === 'Escape') {
+                        setIsEditing(false);
+                    }
+                }}
+                placeholder={placeholder}
+                maxLength={maxLength}
+                className={cn(
+                    "w-full rounded bg-gray-900 border border-gray-600 px-1.5 py-0.5 text-white focus:outline-none focus:ring-1 focus:ring-blue-500",
+                    inputClassName
+                )}
+                autoFocus
+            />
+        );
+    }
+
+    return (
+        <button
+            type="button"
+            className={cn("group flex items-center gap-1.5 text-left max-w-full", className)}
+            onClick={startEditing}
+            title="Click to edit"
+        >
+            <span className={cn("truncate", !value && "text-gray-500 italic")}>{value || placeholder}</span>
+            <Pencil size={12} className="flex-shrink-0 opacity-0 group-hover:opacity-60 transition-opacity" />
+        </button>
+    );
+}
@@ -0,0 +1,108 @@
+import { type RefObject } from "react";
+import { ChevronDown, ChevronUp, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface FindBarProps {
+    query: string;
+    onQueryChange: (query: string) => void;
+    // User ID to limit matches to, "ai" for the AI, or "" for everyone
+    author: string;
+    onAuthorChange: (author: string) => void;
+    authors: { id: string; name: string }[];
+    matchCount: number;
+    currentIndex: number;
+    // Older messages are still being loaded, so more matches may follow
+    isLoading?: boolean;
+    onNext: () => void;
+    onPrevious: () => void;
+    onClose: () => void;
+    inputRef: RefObject<HTMLInputElement | null>;
+}
+
+// Find bar for the open room: Enter / Shift+Enter step through matching messages, Escape closes
+export function FindBar({
+    query,
+    onQueryChange,
+    author,
+    onAuthorChange,
+    authors,
+    matchCount,
+    currentIndex,
+    isLoading = false,
+    onNext,
+    onPrevious,
+    onClose,
+    inputRef
+}: FindBarProps) {
+    const isFiltering = query.trim() !== "" || author !== "";
+
+    return (
+        <div className="bg-gray-800 border-b border-gray-700 px-4 py-2 flex items-center gap-2">
+            <div className="relative flex-1 max-w-sm">
+                <Search size={14} className="absolute left-2.5 top-2.5 text-gray-400 pointer-events-none" />
+                <Input
+                    ref={inputRef}
+                    value={query}
+                    onChange={(e) => onQueryChange(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                            e.preventDefault();
+                            if (e.shiftKey) onPrevious();
+                            else onNext();
+                        } else if (e.key === "Escape") {
+                            onClose();
+                        }
+                    }}
+                    placeholder="Find in this chat"
+                    aria-label="Find in this chat"
+                    className="h-8 pl-8 bg-gray-900 border-gray-700 text-sm text-white"
+                    autoFocus
+                />
+            </div>
+            <select
+                aria-label="Only messages from"
+                value={author}
+                onChange={(e) => onAuthorChange(e.target.value)}
+                className="h-8 rounded-md bg-gray-900 border border-gray-700 text-white px-2 text-sm max-w-[160px]"
+            >
+                <option value="">Anyone</option>
+                {authors.map((a) => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+            </select>
+            <span className="text-xs text-gray-400 min-w-[64px] text-center" aria-live="polite">
+                {!isFiltering ? "" : matchCount > 0 ? `${currentIndex + 1} of ${matchCount}` : isLoading ? "Searching…" : "No matches"}
+            </span>
+            <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-gray-300 hover:bg-gray-700"
+                onClick={onPrevious}
+                disabled={matchCount === 0}
+                title="Previous match (Shift+Enter)"
+            >
+                <ChevronUp size={16} />
+            </Button>
+            <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-gray-300 hover:bg-gray-700"
+                onClick={onNext}
+                disabled={matchCount === 0}
+                title="Next match (Enter)"
+            >
+                <ChevronDown size={16} />
+            </Button>
+            <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-gray-300 hover:bg-gray-700"
+                onClick={onClose}
+                title="Close (Esc)"
+            >
+                <X size={16} />
+            </Button>
+        </div>
+    );
+}
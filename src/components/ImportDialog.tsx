@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { AlertCircle, AlertTriangle, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { createRoom, importRoomMessages } from '@/lib/socket';
+import { IMPORT_SOURCE_LABELS, parseImport, type ImportReport } from '@/lib/importer';
+import { toast } from '@/hooks/use-toast';
+
+// How many messages the preview shows from the start of the conversation
+const PREVIEW_LENGTH = 5;
+
+interface ImportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // Called with the new room once its history is in place
+    onImported: (roomId: string) => void;
+}
+
+export function ImportDialog({ isOpen, onClose, onImported }: ImportDialogProps) {
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [isImporting, setIsImporting] = useState(false);
+    // Room created by an import that then failed; retries fill it instead of making another
+    const emptyRoomRef = useRef<string | null>(null);
+
+    // Start over every time the dialog opens
+    useEffect(() => {
+        if (isOpen) {
+            setFileName(null);
+            setReport(null);
+            setSelectedIndex(0);
+        }
+    }, [isOpen]);
+
+    const handleFile = async (file: File) => {
+        setFileName(file.name);
+        setSelectedIndex(0);
+        setReport(parseImport(await file.text()));
+    };
+
+    const conversation = report?.conversations[selectedIndex];
+    // Issues for the whole file, plus those for the chosen conversation
+    const issues = report?.issues.filter(i => i.conversation === undefined || i.conversation === selectedIndex) || [];
+    const canImport = !!conversation && !issues.some(i => i.level === 'error');
+
+    const handleImport = async () => {
+        if (!conversation || !canImport) return;
+
+        setIsImporting(true);
+        try {
+            // Stay in the open room until the import has worked; opening the new
+            // room afterwards switches over
+            const roomId = emptyRoomRef.current || await createRoom(false);
+            emptyRoomRef.current = roomId;
+            await importRoomMessages(
+                roomId,
+                { title: conversation.title, description: conversation.description },
+                conversation.messages
+            );
+            emptyRoomRef.current = null;
+            toast({ variant: 'success', title: `Imported ${conversation.messages.length} messages` });
+            onClose();
+            onImported(roomId);
+        } catch (error) {
+            console.error('Failed to import conversation:', error);
+            toast({ variant: 'error', title: "Couldn't import the conversation", action: { label: 'Retry', onClick: handleImport } });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <Dialog.Root open={isOpen} onOpenChange={onClose}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" />
+                <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-lg max-h-[90vh] overflow-y-auto translate-x-[-50%] translate-y-[-50%] rounded-lg bg-gray-900 border border-gray-800 p-6 shadow-lg">
+                    <Dialog.Title className="text-xl font-semibold text-white mb-1">
+                        Import Conversation
+                    </Dialog.Title>
+                    <Dialog.Description className="text-sm text-gray-400 mb-4">
+                        Start a new chat from a CollabGPT JSON export or a ChatGPT conversations.json file.
+                    </Dialog.Description>
+
+                    <div className="space-y-4">
+                        <label className="flex items-center justify-center gap-2 rounded-md border border-dashed border-gray-600 p-4 cursor-pointer text-gray-300 hover:bg-gray-800">
+                            <Upload size={16} />
+                            <span className="text-sm truncate">{fileName || 'Choose a .json file'}</span>
+                            <input
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleFile(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </label>
+
+                        {report && report.source && (
+                            <p className="text-xs text-gray-400">
+                                {IMPORT_SOURCE_LABELS[report.source]} · {report.conversations.length} {report.conversations.length === 1 ? 'conversation' : 'conversations'}
+                            </p>
+                        )}
+
+                        {report && report.conversations.length > 1 && (
+                            <select
+                                aria-label="Conversation to import"
+                                value={selectedIndex}
+                                onChange={(e) => setSelectedIndex(parseInt(e.target.value, 10))}
+                                className="w-full h-9 rounded-md bg-gray-800 border border-gray-700 text-white px-2 text-sm"
+                            >
+                                {report.conversations.map((c, i) => (
+                                    <option key={i} value={i}>{c.title} ({c.messages.length})</option>
+                                ))}
+                            </select>
+                        )}
+
+                        {issues.length > 0 && (
+                            <ul className="space-y-1">
+                                {issues.map((issue, i) => (
+                                    <li
+                                        key={i}
+                                        className={`flex items-start gap-2 text-xs ${issue.level === 'error' ? 'text-red-300' : 'text-yellow-300'}`}
+                                    >
+                                        {issue.level === 'error'
+                                            ? <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                                            : <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />}
+                                        <span>{issue.message}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {conversation && conversation.messages.length > 0 && (
+                            <div className="rounded-md border border-gray-700 bg-gray-800/50 p-3 space-y-2">
+                                <div className="flex items-baseline justify-between gap-2">
+                                    <span className="text-sm font-medium text-white truncate">{conversation.title}</span>
+                                    <span className="text-xs text-gray-400 flex-shrink-0">
+                                        {conversation.messages.length} messages · {conversation.messages[0].timestamp.toLocaleDateString()}
+                                    </span>
+                                </div>
+                                {conversation.messages.slice(0, PREVIEW_LENGTH).map((message, i) => (
+                                    <div key={i} className="text-xs">
+                                        <span className="text-gray-400 mr-1">
+                                            {message.role === 'assistant' ? 'AI' : message.userName || 'User'}:
+                                        </span>
+                                        <span className="text-gray-200 line-clamp-2">{message.content}</span>
+                                    </div>
+                                ))}
+                                {conversation.messages.length > PREVIEW_LENGTH && (
+                                    <p className="text-xs text-gray-500">
+                                        and {conversation.messages.length - PREVIEW_LENGTH} more
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="mt-6 flex justify-end gap-2">
+                        <Button variant="outline" className="text-white" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button
+                            className="bg-blue-600 hover:bg-blue-700 text-white"
+                            onClick={handleImport}
+                            disabled={!canImport || isImporting}
+                        >
+                            {isImporting && <Loader2 size={16} className="mr-2 animate-spin" />}
+                            Import
+                        </Button>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
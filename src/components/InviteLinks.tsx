@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { Check, Copy, Link2, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ROOM_ROLE_LABELS, type RoomRole } from '@/lib/socket';
+import { createInvite, getActiveInvites, getInviteUrl, revokeInvite, type RoomInvite } from '@/lib/invites';
+import { toast } from '@/hooks/use-toast';
+
+// Expiry choices offered when creating a link, in hours
+const EXPIRY_OPTIONS: { label: string; hours?: number }[] = [
+    { label: 'Never' },
+    { label: '1 hour', hours: 1 },
+    { label: '1 day', hours: 24 },
+    { label: '7 days', hours: 24 * 7 },
+];
+
+const describeInvite = (invite: RoomInvite) => {
+    const parts = [ROOM_ROLE_LABELS[invite.role]];
+    parts.push(invite.maxUses ? `${invite.uses}/${invite.maxUses} uses` : `${invite.uses} uses`);
+    parts.push(invite.expiresAt ? `expires ${invite.expiresAt.toLocaleString()}` : 'never expires');
+    return parts.join(' · ');
+};
+
+interface InviteLinksProps {
+    roomId: string;
+    isOpen: boolean;
+}
+
+// Owner-only list of invite links, with controls to create and revoke them
+export function InviteLinks({ roomId, isOpen }: InviteLinksProps) {
+    const [invites, setInvites] = useState<RoomInvite[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [role, setRole] = useState<RoomRole>('editor');
+    const [expiryIndex, setExpiryIndex] = useState(2);
+    const [maxUses, setMaxUses] = useState('');
+    const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+    // Refresh the list every time the dialog opens
+    useEffect(() => {
+        if (!isOpen) return;
+
+        setIsLoading(true);
+        getActiveInvites(roomId)
+            .then(setInvites)
+            .catch((error) => {
+                console.error('Failed to load invites:', error);
+                toast({ variant: 'error', title: "Couldn't load invite links", dedupeKey: 'load-invites' });
+            })
+            .finally(() => setIsLoading(false));
+    }, [isOpen, roomId]);
+
+    const copyInvite = async (token: string) => {
+        try {
+            await navigator.clipboard.writeText(getInviteUrl(roomId, token));
+            setCopiedToken(token);
+            setTimeout(() => setCopiedToken(null), 2000);
+        } catch (err) {
+            console.error('Failed to copy text: ', err);
+        }
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            const uses = parseInt(maxUses, 10);
+            const invite = await createInvite(roomId, {
+                role,
+                expiresInHours: EXPIRY_OPTIONS[expiryIndex].hours,
+                maxUses: uses > 0 ? uses : undefined,
+            });
+            setInvites(prev => [invite, ...prev]);
+            setMaxUses('');
+            copyInvite(invite.token);
+            toast({ variant: 'success', title: 'Invite link created and copied' });
+        } catch (error) {
+            console.error('Failed to create invite:', error);
+            toast({ variant: 'error', title: "Couldn't create the invite link", action: { label: 'Retry', onClick: handleCreate } });
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleRevoke = async (invite: RoomInvite) => {
+        setInvites(prev => prev.filter(i => i.token !== invite.token));
+        try {
+            await revokeInvite(roomId, invite.token);
+        } catch (error) {
+            console.error('Failed to revoke invite:', error);
+            setInvites(prev => [invite, ...prev]);
+            toast({ variant: 'error', title: "Couldn't revoke the invite link", action: { label: 'Retry', onClick: () => handleRevoke(invite) } });
+        }
+    };
+
+    return (
+        <div className="space-y-3 pt-4 border-t border-gray-800">
+            <div className="flex items-center gap-2 text-gray-300">
+                <Link2 size={16} />
+                <span className="text-sm font-medium">Invite links</span>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <select
+                    aria-label="Role for people joining with this link"
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as RoomRole)}
+                    className="h-9 rounded-md bg-gray-800 border border-gray-700 text-white px-2 text-sm"
+                >
+                    <option value="editor">{ROOM_ROLE_LABELS.editor}</option>
+                    <option value="viewer">{ROOM_ROLE_LABELS.viewer}</option>
+                </select>
+                <select
+                    aria-label="Link expires after"
+                    value={expiryIndex}
+                    onChange={(e) => setExpiryIndex(parseInt(e.target.value, 10))}
+                    className="h-9 rounded-md bg-gray-800 border border-gray-700 text-white px-2 text-sm"
+                >
+                    {EXPIRY_OPTIONS.map((option, i) => (
+                        <option key={option.label} value={i}>{option.hours ? `Expires in ${option.label}` : 'Never expires'}</option>
+                    ))}
+                </select>
+                <Input
+                    aria-label="Maximum uses"
+                    type="number"
+                    min={1}
+                    placeholder="Max uses"
+                    value={maxUses}
+                    onChange={(e) => setMaxUses(e.target.value)}
+                    className="bg-gray-800 border-gray-700 text-white w-24"
+                />
+                <Button
+                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                    onClick={handleCreate}
+                    disabled={isCreating}
+                >
+                    {isCreating ? <Loader2 size={16} className="animate-spin" /> : 'Create'}
+                </Button>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-2">
+                    <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                </div>
+            ) : invites.length === 0 ? (
+                <p className="text-xs text-gray-500">No active invite links.</p>
+            ) : (
+                <ul className="space-y-2 max-h-48 overflow-y-auto">
+                    {invites.map((invite) => (
+                        <li key={invite.token} className="flex items-center gap-2 bg-gray-800 rounded border border-gray-700 px-2 py-1.5">
+                            <span className="flex-1 text-xs text-gray-300 truncate" title={getInviteUrl(roomId, invite.token)}>
+                                {describeInvite(invite)}
+                            </span>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 w-7 p-0 text-gray-300 hover:bg-gray-700"
+                                onClick={() => copyInvite(invite.token)}
+                                title="Copy link"
+                            >
+                                {copiedToken === invite.token ? <Check size={14} /> : <Copy size={14} />}
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 w-7 p-0 text-red-400 hover:text-red-300 hover:bg-gray-700"
+                                onClick={() => handleRevoke(invite)}
+                                title="Revoke link"
+                            >
+                                <Trash2 size={14} />
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
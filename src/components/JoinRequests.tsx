@@ -0,0 +1,55 @@
+import { Button } from "@/components/ui/button";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { type JoinRequest, type RoomRole } from "@/lib/socket";
+
+interface JoinRequestsProps {
+    requests: JoinRequest[];
+    onRespond: (userId: string, approve: boolean, role: RoomRole) => void;
+}
+
+// People waiting to get into an invite-only room, shown to its owner
+export function JoinRequests({ requests, onRespond }: JoinRequestsProps) {
+    if (requests.length === 0) return null;
+
+    return (
+        <div className="mt-3 pt-3 border-t border-gray-600">
+            <h3 className="text-xs font-medium mb-2 text-gray-300">
+                Asking to join ({requests.length})
+            </h3>
+            <div className="space-y-2">
+                {requests.map(({ user }) => (
+                    <div key={user.id} className="flex items-center gap-2">
+                        <UserAvatar user={user} size={20} />
+                        <span className="text-xs flex-1 truncate" title={user.name}>{user.name}</span>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-1.5 text-xs text-green-400 hover:text-green-300 hover:bg-gray-600"
+                            onClick={() => onRespond(user.id, true, "editor")}
+                            title="Let them in and allow them to chat"
+                        >
+                            Editor
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-1.5 text-xs text-blue-400 hover:text-blue-300 hover:bg-gray-600"
+                            onClick={() => onRespond(user.id, true, "viewer")}
+                            title="Let them in to read only"
+                        >
+                            Viewer
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-1.5 text-xs text-red-400 hover:text-red-300 hover:bg-gray-600"
+                            onClick={() => onRespond(user.id, false, "viewer")}
+                        >
+                            Deny
+                        </Button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { AIAvatar } from "@/components/ui/AIAvatar";
+import { type RoomUser } from "@/lib/socket";
+
+interface MentionSuggestionsProps {
+    users: RoomUser[];
+    activeIndex: number;
+    onSelect: (user: RoomUser) => void;
+}
+
+// Popup above the composer listing collaborators that match the "@query" being typed
+export function MentionSuggestions({ users, activeIndex, onSelect }: MentionSuggestionsProps) {
+    if (users.length === 0) return null;
+
+    return (
+        <div className="absolute bottom-full left-0 mb-2 w-64 max-h-60 overflow-y-auto rounded-md border border-gray-700 bg-gray-800 shadow-lg z-50 py-1">
+            {users.map((user, index) => (
+                <button
+                    key={`mention-${user.id}`}
+                    type="button"
+                    className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${index === activeIndex ? "bg-gray-700 text-white" : "text-gray-300 hover:bg-gray-700/50"}`}
+                    // Keep focus in the textarea so the caret position survives
+                    onMouseDown={(e) => {
+                        e.preventDefault();
+                        onSelect(user);
+                    }}
+                >
+                    {user.id === "ai" ? (
+                        <AIAvatar size={20} />
+                    ) : (
+                        <UserAvatar user={user} size={20} />
+                    )}
+                    <span className="truncate">{user.name}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
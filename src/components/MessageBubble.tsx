@@ -0,0 +1,329 @@
+import { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { AlertCircle, Check, ChevronLeft, ChevronRight, Clock, Loader2, Pencil, RefreshCw, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { PersonaAvatar } from "@/components/ui/PersonaAvatar";
+import { type MessageEdit, type MessageMention, type MessageVersion } from "@/lib/socket";
+import { splitByMentions } from "@/lib/mentions";
+import { FIND_MATCH_CLASSES, rehypeFindHighlight, splitByQuery } from "@/lib/find";
+
+// Where one of our own messages is on its way to the server
+// - pending: queued until the connection is back
+// - sending: waiting for the server's acknowledgement
+// - sent: acknowledged
+// - failed: rejected or unacknowledged, can be retried
+export type DeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface ChatMessage {
+    id: string;
+    content: string;
+    role: "user" | "assistant";
+    timestamp: Date;
+    seq?: number;
+    userId?: string;
+    userName?: string;
+    userPhotoURL?: string | null;
+    isTyping?: boolean;
+    isError?: boolean;
+    isStreaming?: boolean;
+    isCancelled?: boolean;
+    cancelledBy?: string;
+    versions?: MessageVersion[];
+    editedAt?: Date;
+    editHistory?: MessageEdit[];
+    mentions?: MessageMention[];
+    deliveryStatus?: DeliveryStatus; // Only set on messages sent from this client
+    deliveryError?: string;
+}
+
+interface MessageBubbleProps {
+    message: ChatMessage;
+    currentUserId?: string;
+    // Index into [...versions, current] that this viewer is looking at
+    versionIndex?: number;
+    onVersionChange?: (index: number) => void;
+    onRegenerate?: () => void;
+    // Only passed for messages the current user may edit
+    onEdit?: (content: string) => void;
+    // Only passed for messages that failed to send
+    onRetry?: () => void;
+    // Set when the message was opened from search, or is the current find match
+    isHighlighted?: boolean;
+    // Text to mark wherever it appears, from the in-room find bar
+    findQuery?: string;
+    // The room's AI persona, shown on AI messages instead of the defaults
+    persona?: {
+        name?: string;
+        avatar?: string;
+    };
+}
+
+export function MessageBubble({
+    message,
+    currentUserId,
+    versionIndex,
+    onVersionChange,
+    onRegenerate,
+    onEdit,
+    onRetry,
+    isHighlighted,
+    findQuery,
+    persona
+}: MessageBubbleProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(message.content);
+    const [showEditHistory, setShowEditHistory] = useState(false);
+    const isOwnMessage = message.userId === currentUserId;
+    const isGenerating = message.isTyping || message.isStreaming;
+    const isAI = message.userId === "ai";
+    const authorName = isAI && persona?.name ? persona.name : message.userName;
+
+    // The latest version is the message itself, older ones live in `versions`
+    const versions = message.versions || [];
+    const versionCount = versions.length + 1;
+    const selectedIndex = versionIndex ?? versionCount - 1;
+    const shown: MessageVersion = selectedIndex < versions.length ? versions[selectedIndex] : message;
+    const isLatest = selectedIndex === versionCount - 1;
+
+    // Plain text with find matches marked
+    const renderFindMatches = (text: string) => findQuery
+        ? splitByQuery(text, findQuery).map((part, i) => part.match
+            ? <mark key={i} className={FIND_MATCH_CLASSES}>{part.text}</mark>
+            : part.text)
+        : text;
+
+    const startEditing = () => {
+        setDraft(message.content);
+        setIsEditing(true);
+    };
+
+    const saveEdit = () => {
+        const content = draft.trim();
+        setIsEditing(false);
+        if (content && content !== message.content) {
+            onEdit?.(content);
+        }
+    };
+
+    return (
+        <div id={`message-${message.id}`} className={`flex ${isOwnMessage ? "justify-end" : "justify-start"}`}>
+            <div className="flex items-start gap-2 max-w-3xl">
+                {!isOwnMessage && (
+                    <div className="flex flex-col items-center mt-1">
+                        {isAI ? (
+                            <PersonaAvatar avatar={persona?.avatar} name={persona?.name} size={32} />
+                        ) : (
+                            <UserAvatar
+                                user={{
+                                    photoURL: message.userPhotoURL || null,
+                                    name: message.userName,
+                                    id: message.userId
+                                }}
+                                size={32}
+                            />
+                        )}
+                    </div>
+                )}
+                <div
+                    className={`rounded-lg p-4 transition-shadow ${isOwnMessage
+                        ? "bg-blue-700 text-white"
+                        : message.role === "assistant"
+                            ? "bg-gray-700 text-white"
+                            : "bg-gray-800 text-white"
+                        } ${isHighlighted ? "ring-2 ring-yellow-400" : ""}`}
+                >
+                    {authorName && !isOwnMessage && (
+                        <div className="text-xs font-medium mb-1 text-gray-300">
+                            {authorName}
+                        </div>
+                    )}
+
+                    {isEditing ? (
+                        <div className="flex flex-col gap-2 min-w-[300px]">
+                            <textarea
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter' && !e.shiftKey) {
+                                        e.preventDefault();
+                                        saveEdit();
+                                    } else if (e.key === 'Escape') {
+                                        setIsEditing(false);
+                                    }
+                                }}
+                                className="w-full rounded-md bg-blue-900/60 border border-blue-500 text-white resize-none p-2 focus:outline-none focus:ring-2 focus:ring-blue-400"
+                                rows={3}
+                                autoFocus
+                            />
+                            <div className="text-xs text-blue-200">
+                                Saving will remove the messages after this one and ask the AI again.
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                                    Cancel
+                                </Button>
+                                <Button size="sm" className="bg-white text-blue-700 hover:bg-gray-100" onClick={saveEdit}>
+                                    Save & re-run
+                                </Button>
+                            </div>
+                        </div>
+                    ) : isLatest && message.isTyping ? (
+                        <div className="flex items-center gap-2 min-h-6">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            <span>{persona?.name || "CollabGPT"} is thinking...</span>
+                        </div>
+                    ) : shown.isError ? (
+                        <div className="text-red-300">{shown.content}</div>
+                    ) : message.role === "assistant" ? (
+                        <>
+                            <ReactMarkdown
+                                rehypePlugins={findQuery ? [[rehypeFindHighlight, findQuery]] : []}
+                                components={{
+                                    div: ({ node, ...props }) => <div className="prose prose-invert max-w-none" {...props} />
+                                }}
+                            >
+                                {shown.content}
+                            </ReactMarkdown>
+                            {isLatest && message.isStreaming && (
+                                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-300 animate-pulse" />
+                            )}
+                            {shown.isCancelled && (
+                                <div className="text-xs italic text-gray-400 mt-2">
+                                    {shown.content ? "Response stopped" : "Response cancelled"}
+                                    {shown.cancelledBy && ` by ${shown.cancelledBy}`}
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <div>
+                            {splitByMentions(shown.content, message.mentions).map((segment, i) => segment.mention ? (
+                                <span
+                                    key={i}
+                                    className={`rounded px-0.5 font-medium ${segment.mention.userId === currentUserId
+                                        ? "bg-yellow-500/30 text-yellow-200"
+                                        : "bg-white/15 text-blue-200"
+                                        }`}
+                                    title={segment.mention.userName}
+                                >
+                                    {renderFindMatches(segment.text)}
+                                </span>
+                            ) : (
+                                <span key={i}>{renderFindMatches(segment.text)}</span>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between gap-4 mt-2">
+                        <div className="flex items-center gap-1 text-xs text-gray-300">
+                            {versionCount > 1 && onVersionChange && (
+                                <>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0"
+                                        disabled={selectedIndex === 0}
+                                        onClick={() => onVersionChange(selectedIndex - 1)}
+                                        title="Previous version"
+                                    >
+                                        <ChevronLeft size={14} />
+                                    </Button>
+                                    <span>{selectedIndex + 1} / {versionCount}</span>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0"
+                                        disabled={isLatest}
+                                        onClick={() => onVersionChange(selectedIndex + 1)}
+                                        title="Next version"
+                                    >
+                                        <ChevronRight size={14} />
+                                    </Button>
+                                </>
+                            )}
+                            {onRegenerate && !isGenerating && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 px-1.5 text-xs text-gray-300"
+                                    onClick={onRegenerate}
+                                    title="Regenerate response"
+                                >
+                                    <RefreshCw size={12} />
+                                    Regenerate
+                                </Button>
+                            )}
+                            {onEdit && !isEditing && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0 text-gray-300"
+                                    onClick={startEditing}
+                                    title="Edit message"
+                                >
+                                    <Pencil size={12} />
+                                </Button>
+                            )}
+                        </div>
+                        <div className="text-xs text-gray-300 text-right">
+                            {message.deliveryStatus === "pending" && (
+                                <span className="inline-flex items-center gap-1 mr-2 italic" title="Will be sent when the connection is back">
+                                    <Clock size={12} />
+                                    Pending
+                                </span>
+                            )}
+                            {message.deliveryStatus === "sending" && (
+                                <span className="inline-flex items-center gap-1 mr-2 italic">
+                                    <Loader2 size={12} className="animate-spin" />
+                                    Sending
+                                </span>
+                            )}
+                            {message.deliveryStatus === "failed" && (
+                                <span className="inline-flex items-center gap-1 mr-2 text-red-300" title={message.deliveryError}>
+                                    <AlertCircle size={12} />
+                                    Not sent
+                                    {onRetry && (
+                                        <button
+                                            type="button"
+                                            className="inline-flex items-center gap-0.5 ml-1 underline hover:text-white"
+                                            onClick={onRetry}
+                                        >
+                                            <RotateCw size={11} />
+                                            Retry
+                                        </button>
+                                    )}
+                                </span>
+                            )}
+                            {message.deliveryStatus === "sent" && (
+                                <Check size={12} className="inline mr-1" aria-label="Sent" />
+                            )}
+                            {message.editedAt && (
+                                <button
+                                    type="button"
+                                    className="mr-2 italic hover:underline"
+                                    onClick={() => setShowEditHistory(!showEditHistory)}
+                                    title={`Edited ${message.editedAt.toLocaleString()}`}
+                                >
+                                    (edited)
+                                </button>
+                            )}
+                            {shown.timestamp.toLocaleTimeString()}
+                        </div>
+                    </div>
+
+                    {/* Earlier wordings of an edited message */}
+                    {showEditHistory && message.editHistory && message.editHistory.length > 0 && (
+                        <div className="mt-2 pt-2 border-t border-white/20 space-y-1">
+                            {message.editHistory.map((edit, i) => (
+                                <div key={i} className="text-xs text-gray-300">
+                                    <span className="text-gray-400 mr-2">{edit.writtenAt.toLocaleTimeString()}</span>
+                                    <span className="line-through">{edit.content}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
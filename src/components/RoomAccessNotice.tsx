@@ -0,0 +1,44 @@
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { type AccessDenied } from "@/lib/socket";
+
+interface RoomAccessNoticeProps {
+    // Waiting for approval when no denial is given
+    denied: AccessDenied | null;
+    onLeave: () => void;
+}
+
+const DENIED_MESSAGES: Record<AccessDenied["reason"], string> = {
+    private: "This chat is private. Only people the owner has added can open it.",
+    denied: "The owner didn't approve your request to join this chat.",
+    removed: "You were removed from this chat.",
+};
+
+// Shown instead of the conversation while we can't see it
+export function RoomAccessNotice({ denied, onLeave }: RoomAccessNoticeProps) {
+    return (
+        <div className="flex-1 flex flex-col items-center justify-center text-center p-6">
+            {denied ? (
+                <>
+                    <Lock size={40} className="text-gray-500 mb-4" />
+                    <h2 className="text-xl font-semibold mb-2">You can't access this chat</h2>
+                    <p className="text-gray-400 mb-6 max-w-md">
+                        {DENIED_MESSAGES[denied.reason]}
+                        {denied.by && ` (${denied.by})`}
+                    </p>
+                </>
+            ) : (
+                <>
+                    <Loader2 size={40} className="text-gray-500 mb-4 animate-spin" />
+                    <h2 className="text-xl font-semibold mb-2">Waiting for approval</h2>
+                    <p className="text-gray-400 mb-6 max-w-md">
+                        This chat is invite only. The owner has been asked to let you in; it will open as soon as they do.
+                    </p>
+                </>
+            )}
+            <Button variant="outline" className="text-white" onClick={onLeave}>
+                Go to a new chat
+            </Button>
+        </div>
+    );
+}
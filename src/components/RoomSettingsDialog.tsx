@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PersonaAvatar } from '@/components/ui/PersonaAvatar';
+import { AI_MODELS, getAISettings, type AISettings, type ChatInfo } from '@/lib/socket';
+
+interface Persona {
+    personaName: string;
+    personaAvatar: string;
+    systemPrompt: string;
+}
+
+// Starting points for common ways teams tune a room
+const PERSONA_PRESETS: (Persona & { label: string })[] = [
+    {
+        label: 'Default',
+        personaName: '',
+        personaAvatar: '',
+        systemPrompt: '',
+    },
+    {
+        label: 'Code reviewer',
+        personaName: 'Code Reviewer',
+        personaAvatar: '🧐',
+        systemPrompt: 'You are a senior software engineer reviewing code shared by the team. Point out bugs, edge cases and readability issues, explain why they matter, and suggest concrete fixes. Be direct but constructive.',
+    },
+    {
+        label: 'Brainstorm facilitator',
+        personaName: 'Facilitator',
+        personaAvatar: '💡',
+        systemPrompt: 'You are facilitating a brainstorming session for a group. Build on everyone\'s ideas, ask open questions, group related ideas together and summarize the discussion when asked. Never dismiss an idea outright.',
+    },
+];
+
+const getPersona = (chatInfo: ChatInfo): Persona => ({
+    personaName: chatInfo.personaName || '',
+    personaAvatar: chatInfo.personaAvatar || '',
+    systemPrompt: chatInfo.systemPrompt || '',
+});
+
+interface RoomSettingsDialogProps {
+    chatInfo: ChatInfo;
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (changes: Partial<ChatInfo>) => void;
+}
+
+export function RoomSettingsDialog({ chatInfo, isOpen, onClose, onSave }: RoomSettingsDialogProps) {
+    const [settings, setSettings] = useState<AISettings>(getAISettings(chatInfo));
+    const [persona, setPersona] = useState<Persona>(getPersona(chatInfo));
+
+    const wasOpenRef = useRef(false);
+
+    // Start from the room's current values every time the dialog opens; updates
+    // broadcast while it is open must not wipe unsaved edits
+    useEffect(() => {
+        if (isOpen && !wasOpenRef.current) {
+            setSettings(getAISettings(chatInfo));
+            setPersona(getPersona(chatInfo));
+        }
+        wasOpenRef.current = isOpen;
+    }, [isOpen, chatInfo]);
+
+    const handleSave = () => {
+        onSave({
+            model: settings.model,
+            temperature: settings.temperature,
+            // Keep the length within what the models accept
+            maxTokens: Math.min(Math.max(Math.round(settings.maxTokens) || 1, 1), 16384),
+            personaName: persona.personaName.trim(),
+            personaAvatar: persona.personaAvatar.trim(),
+            systemPrompt: persona.systemPrompt.trim(),
+        });
+        onClose();
+    };
+
+    return (
+        <Dialog.Root open={isOpen} onOpenChange={onClose}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" />
+                <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-lg max-h-[90vh] overflow-y-auto translate-x-[-50%] translate-y-[-50%] rounded-lg bg-gray-900 border border-gray-800 p-6 shadow-lg">
+                    <Dialog.Title className="text-xl font-semibold text-white mb-1">
+                        Room Settings
+                    </Dialog.Title>
+                    <Dialog.Description className="text-gray-400 text-sm mb-4">
+                        These settings apply to everyone in this chat.
+                    </Dialog.Description>
+
+                    <div className="space-y-5">
+                        <div className="space-y-2">
+                            <label htmlFor="room-model" className="text-sm font-medium text-gray-300">Model</label>
+                            <select
+                                id="room-model"
+                                value={settings.model}
+                                onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+                                className="w-full h-9 rounded-md bg-gray-800 border border-gray-700 text-white px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                {AI_MODELS.map((model) => (
+                                    <option key={model.id} value={model.id}>{model.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <label htmlFor="room-temperature" className="text-sm font-medium text-gray-300">Temperature</label>
+                                <span className="text-xs text-gray-400">{settings.temperature.toFixed(1)}</span>
+                            </div>
+                            <input
+                                id="room-temperature"
+                                type="range"
+                                min={0}
+                                max={2}
+                                step={0.1}
+                                value={settings.temperature}
+                                onChange={(e) => setSettings({ ...settings, temperature: parseFloat(e.target.value) })}
+                                className="w-full accent-blue-500"
+                            />
+                            <div className="flex justify-between text-xs text-gray-500">
+                                <span>Precise</span>
+                                <span>Creative</span>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <label htmlFor="room-max-tokens" className="text-sm font-medium text-gray-300">Max response length (tokens)</label>
+                            <Input
+                                id="room-max-tokens"
+                                type="number"
+                                min={1}
+                                max={16384}
+                                value={settings.maxTokens}
+                                onChange={(e) => setSettings({ ...settings, maxTokens: parseInt(e.target.value, 10) || 0 })}
+                                className="bg-gray-800 border-gray-700 text-white"
+                            />
+                        </div>
+
+                        {/* Persona and system prompt */}
+                        <div className="space-y-3 pt-4 border-t border-gray-800">
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm font-medium text-gray-300">Persona</span>
+                                <div className="flex gap-1">
+                                    {PERSONA_PRESETS.map(({ label, ...preset }) => (
+                                        <Button
+                                            key={label}
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-7 px-2 text-xs text-gray-300 hover:bg-gray-800"
+                                            onClick={() => setPersona(preset)}
+                                        >
+                                            {label}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="flex items-center gap-3">
+                                <PersonaAvatar avatar={persona.personaAvatar} name={persona.personaName} size={36} />
+                                <Input
+                                    aria-label="Persona name"
+                                    placeholder="Name (default: CollabGPT)"
+                                    value={persona.personaName}
+                                    maxLength={40}
+                                    onChange={(e) => setPersona({ ...persona, personaName: e.target.value })}
+                                    className="bg-gray-800 border-gray-700 text-white"
+                                />
+                                <Input
+                                    aria-label="Persona avatar"
+                                    placeholder="Emoji or https URL"
+                                    value={persona.personaAvatar}
+                                    onChange={(e) => setPersona({ ...persona, personaAvatar: e.target.value })}
+                                    className="bg-gray-800 border-gray-700 text-white w-40"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label htmlFor="room-system-prompt" className="text-sm font-medium text-gray-300">System prompt</label>
+                                <textarea
+                                    id="room-system-prompt"
+                                    value={persona.systemPrompt}
+                                    onChange={(e) => setPersona({ ...persona, systemPrompt: e.target.value })}
+                                    placeholder="e.g. You are a concise assistant that reviews pull requests..."
+                                    rows={5}
+                                    className="w-full rounded-md bg-gray-800 border border-gray-700 text-white text-sm p-3 resize-y focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="text-white mt-6 flex justify-end gap-2">
+                        <Button variant="outline" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button className="bg-blue-600 hover:bg-blue-700" onClick={handleSave}>
+                            Save
+                        </Button>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
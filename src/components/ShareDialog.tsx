@@ -2,16 +2,28 @@ import { useState } from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Copy, Check, Users } from 'lucide-react';
+import { Copy, Check, Users, Camera, Loader2 } from 'lucide-react';
+import { ROOM_VISIBILITY_OPTIONS, type RoomVisibility } from '@/lib/socket';
+import { InviteLinks } from '@/components/InviteLinks';
+import { getSnapshotUrl, type ChatSnapshot } from '@/lib/snapshots';
+import { toast } from '@/hooks/use-toast';
 
 interface ShareDialogProps {
     roomId: string;
     isOpen: boolean;
     onClose: () => void;
+    visibility?: RoomVisibility;
+    // Only passed when the current user owns the room
+    onVisibilityChange?: (visibility: RoomVisibility) => void;
+    // Only passed when the current user may publish this chat's messages
+    onPublishSnapshot?: () => Promise<ChatSnapshot>;
 }
 
-export function ShareDialog({ roomId, isOpen, onClose }: ShareDialogProps) {
+export function ShareDialog({ roomId, isOpen, onClose, visibility = 'public-link', onVisibilityChange, onPublishSnapshot }: ShareDialogProps) {
     const [copied, setCopied] = useState(false);
+    const [isPublishing, setIsPublishing] = useState(false);
+    const [snapshotUrl, setSnapshotUrl] = useState<string | null>(null);
+    const [snapshotCopied, setSnapshotCopied] = useState(false);
     const shareUrl = `${window.location.origin}/join/${roomId}`;
 
     const copyToClipboard = async () => {
@@ -24,19 +36,70 @@ export function ShareDialog({ roomId, isOpen, onClose }: ShareDialogProps) {
         }
     };
 
+    const copySnapshotUrl = async (url: string) => {
+        try {
+            await navigator.clipboard.writeText(url);
+            setSnapshotCopied(true);
+            setTimeout(() => setSnapshotCopied(false), 2000);
+        } catch (err) {
+            console.error('Failed to copy text: ', err);
+        }
+    };
+
+    const handlePublish = async () => {
+        if (!onPublishSnapshot) return;
+
+        setIsPublishing(true);
+        try {
+            const snapshot = await onPublishSnapshot();
+            const url = getSnapshotUrl(snapshot.id);
+            setSnapshotUrl(url);
+            copySnapshotUrl(url);
+        } catch (error) {
+            console.error('Failed to publish snapshot:', error);
+            toast({ variant: 'error', title: "Couldn't publish the snapshot", action: { label: 'Retry', onClick: handlePublish } });
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
     return (
         <Dialog.Root open={isOpen} onOpenChange={onClose}>
             <Dialog.Portal>
                 <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" />
-                <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-md translate-x-[-50%] translate-y-[-50%] rounded-lg bg-gray-900 border border-gray-800 p-6 shadow-lg">
+                <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-lg max-h-[90vh] overflow-y-auto translate-x-[-50%] translate-y-[-50%] rounded-lg bg-gray-900 border border-gray-800 p-6 shadow-lg">
                     <Dialog.Title className="text-xl font-semibold text-white mb-4">
                         Share Chat
                     </Dialog.Title>
 
                     <div className="space-y-4">
-                        <p className="text-gray-300 text-sm">
-                            Anyone with the link can join this chat. They will need to sign in first.
-                        </p>
+                        {onVisibilityChange ? (
+                            <div className="space-y-2" role="radiogroup" aria-label="Who can join">
+                                {(Object.keys(ROOM_VISIBILITY_OPTIONS) as RoomVisibility[]).map((option) => (
+                                    <label
+                                        key={option}
+                                        className={`flex items-start gap-3 rounded-md border p-3 cursor-pointer ${visibility === option ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 hover:bg-gray-800'}`}
+                                    >
+                                        <input
+                                            type="radio"
+                                            name="room-visibility"
+                                            value={option}
+                                            checked={visibility === option}
+                                            onChange={() => onVisibilityChange(option)}
+                                            className="mt-1 accent-blue-500"
+                                        />
+                                        <span>
+                                            <span className="block text-sm font-medium text-white">{ROOM_VISIBILITY_OPTIONS[option].label}</span>
+                                            <span className="block text-xs text-gray-400">{ROOM_VISIBILITY_OPTIONS[option].description}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-gray-300 text-sm">
+                                {ROOM_VISIBILITY_OPTIONS[visibility].description}
+                            </p>
+                        )}
 
                         <div className="flex items-center gap-2">
                             <Input
@@ -58,6 +121,42 @@ export function ShareDialog({ roomId, isOpen, onClose }: ShareDialogProps) {
                                 <code className="text-white text-xs">{roomId}</code>
                             </div>
                         </div>
+
+                        {onPublishSnapshot && (
+                            <div className="space-y-2 pt-4 border-t border-gray-800">
+                                <div className="flex items-center gap-2 text-gray-300">
+                                    <Camera size={16} />
+                                    <span className="text-sm font-medium">Read-only snapshot</span>
+                                </div>
+                                <p className="text-xs text-gray-400">
+                                    Publish the conversation as it is now. Anyone with the link can read it without signing in; later messages won't appear.
+                                </p>
+                                {snapshotUrl && (
+                                    <div className="flex items-center gap-2">
+                                        <Input
+                                            value={snapshotUrl}
+                                            readOnly
+                                            className="bg-gray-800 border-gray-700 text-white"
+                                        />
+                                        <Button onClick={() => copySnapshotUrl(snapshotUrl)} className="w-10 h-10 p-0 flex text-white border-1 items-center justify-center">
+                                            {snapshotCopied ? <Check size={16} /> : <Copy size={16} />}
+                                        </Button>
+                                    </div>
+                                )}
+                                <Button
+                                    variant="outline"
+                                    className="text-white"
+                                    onClick={handlePublish}
+                                    disabled={isPublishing}
+                                >
+                                    {isPublishing && <Loader2 size={16} className="mr-2 animate-spin" />}
+                                    {snapshotUrl ? 'Publish a new snapshot' : 'Publish snapshot'}
+                                </Button>
+                            </div>
+                        )}
+
+                        {/* Only the owner manages invites, the same people who set visibility */}
+                        {onVisibilityChange && <InviteLinks roomId={roomId} isOpen={isOpen} />}
                     </div>
 
                     <div className="border-white text-white mt-6 flex justify-end">
@@ -1,15 +1,19 @@
 import { UserAvatar } from "@/components/ui/UserAvatar";
-import { type RoomUser } from "@/lib/socket";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ROOM_ROLE_LABELS, type RoomRole, type RoomUser } from "@/lib/socket";
 import { User } from "firebase/auth";
 import { memo } from "react";
 
 interface UserListProps {
     users: RoomUser[];
     currentUser: User | null;
+    // Only passed when the current user owns the room
+    onRoleChange?: (userId: string, role: RoomRole) => void;
+    onRemove?: (userId: string) => void;
 }
 
 // Using memo to prevent unnecessary rerenders
-const UserList = memo(function UserList({ users, currentUser }: UserListProps) {
+const UserList = memo(function UserList({ users, currentUser, onRoleChange, onRemove }: UserListProps) {
     // Filter out duplicate users by keeping only one instance of each user ID
     const uniqueUsers = users.reduce((acc: RoomUser[], user) => {
         // Check if we already have this user in our accumulator
@@ -23,22 +27,61 @@ const UserList = memo(function UserList({ users, currentUser }: UserListProps) {
         <div className="bg-gray-800/50 rounded-md">
             <h3 className="text-xs font-medium mb-1 text-gray-300">Collaborators</h3>
             <div className="flex flex-wrap gap-2">
-                {uniqueUsers.map((user) => (
-                    <div
-                        key={`user-${user.id}`}
-                        className={`flex items-center gap-1.5 bg-gray-700/50 rounded-full px-2 py-1 ${user.id === currentUser?.uid ? "ring-1 ring-blue-500" : ""
-                            }`}
-                        title={user.name}
-                    >
-                        <UserAvatar
-                            user={user}
-                            size={20}
-                        />
-                        <span className="text-xs max-w-[80px] truncate">
-                            {user.id === currentUser?.uid ? 'You' : user.name}
-                        </span>
-                    </div>
-                ))}
+                {uniqueUsers.map((user) => {
+                    const chip = (
+                        <div
+                            className={`flex items-center gap-1.5 bg-gray-700/50 rounded-full px-2 py-1 ${user.id === currentUser?.uid ? "ring-1 ring-blue-500" : ""
+                                }`}
+                            title={user.role ? `${user.name} (${ROOM_ROLE_LABELS[user.role]})` : user.name}
+                        >
+                            <UserAvatar
+                                user={user}
+                                size={20}
+                            />
+                            <span className="text-xs max-w-[80px] truncate">
+                                {user.id === currentUser?.uid ? 'You' : user.name}
+                            </span>
+                            {user.role && user.role !== "editor" && (
+                                <span className="text-[10px] text-gray-400">{ROOM_ROLE_LABELS[user.role]}</span>
+                            )}
+                        </div>
+                    );
+
+                    // Owners manage everyone but themselves
+                    const canManage = (onRoleChange || onRemove) && user.id !== currentUser?.uid && user.role !== "owner";
+                    if (!canManage) {
+                        return <div key={`user-${user.id}`}>{chip}</div>;
+                    }
+
+                    return (
+                        <DropdownMenu key={`user-${user.id}`}>
+                            <DropdownMenuTrigger asChild>
+                                <button type="button" className="rounded-full hover:opacity-80">
+                                    {chip}
+                                </button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start" className="w-44 bg-gray-800 border-gray-700">
+                                {onRoleChange && (["editor", "viewer"] as RoomRole[]).map((role) => (
+                                    <DropdownMenuItem
+                                        key={role}
+                                        className={`text-gray-200 focus:bg-gray-700 ${(user.role || "editor") === role ? "font-semibold" : ""}`}
+                                        onClick={() => onRoleChange(user.id, role)}
+                                    >
+                                        {ROOM_ROLE_LABELS[role]}
+                                    </DropdownMenuItem>
+                                ))}
+                                {onRemove && (
+                                    <DropdownMenuItem
+                                        className="text-red-400 focus:text-red-400 focus:bg-gray-700"
+                                        onClick={() => onRemove(user.id)}
+                                    >
+                                        Remove from chat
+                                    </DropdownMenuItem>
+                                )}
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                    );
+                })}
             </div>
         </div>
     );
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { AIAvatar } from "./AIAvatar";
+
+interface PersonaAvatarProps {
+    avatar?: string; // Emoji or https image URL
+    name?: string;
+    size?: number;
+    className?: string;
+}
+
+// Avatar for the room's AI persona, falling back to the default AI avatar
+export function PersonaAvatar({ avatar, name, size = 40, className = "" }: PersonaAvatarProps) {
+    // Remember which URL failed, so a new avatar gets its own chance to load
+    const [failedAvatar, setFailedAvatar] = useState<string | null>(null);
+
+    if (!avatar) {
+        return <AIAvatar size={size} className={className} />;
+    }
+
+    // Only load images over https
+    if (/^https:\/\//i.test(avatar)) {
+        if (failedAvatar === avatar) {
+            return <AIAvatar size={size} className={className} />;
+        }
+
+        return (
+            <img
+                src={avatar}
+                alt={name || "AI persona"}
+                className={`rounded-full object-cover ${className}`}
+                style={{ width: size, height: size }}
+                onError={() => setFailedAvatar(avatar)}
+                loading="lazy"
+            />
+        );
+    }
+
+    return (
+        <div
+            className={`bg-gray-600 rounded-full flex items-center justify-center ${className}`}
+            style={{ width: size, height: size }}
+            title={name}
+        >
+            <span style={{ fontSize: size * 0.55 }}>{avatar}</span>
+        </div>
+    );
+}
@@ -0,0 +1,93 @@
+import * as React from "react"
+import { cva, type VariantProps } from "class-variance-authority"
+import { AlertCircle, CheckCircle2, Info, X } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+
+const toastVariants = cva(
+  "pointer-events-auto flex w-full items-start gap-3 rounded-lg border p-4 shadow-lg",
+  {
+    variants: {
+      variant: {
+        success: "bg-gray-900 border-green-800 text-green-100",
+        error: "bg-gray-900 border-red-800 text-red-100",
+        info: "bg-gray-900 border-gray-700 text-gray-100",
+      },
+    },
+    defaultVariants: {
+      variant: "info",
+    },
+  }
+)
+
+const icons = {
+  success: <CheckCircle2 className="size-5 text-green-400" />,
+  error: <AlertCircle className="size-5 text-red-400" />,
+  info: <Info className="size-5 text-blue-400" />,
+}
+
+interface ToastProps
+  extends Omit<React.ComponentProps<"div">, "title">,
+    VariantProps<typeof toastVariants> {
+  title: React.ReactNode
+  description?: React.ReactNode
+  count?: number
+  action?: { label: string; onClick: () => void }
+  onDismiss?: () => void
+}
+
+function Toast({
+  className,
+  variant,
+  title,
+  description,
+  count = 1,
+  action,
+  onDismiss,
+  ...props
+}: ToastProps) {
+  return (
+    <div
+      role={variant === "error" ? "alert" : "status"}
+      className={cn(toastVariants({ variant }), className)}
+      {...props}
+    >
+      <span className="mt-0.5 flex-shrink-0">{icons[variant || "info"]}</span>
+      <div className="min-w-0 flex-1">
+        <div className="text-sm font-medium">
+          {title}
+          {count > 1 && (
+            <span className="ml-2 rounded-full bg-white/10 px-1.5 text-xs">×{count}</span>
+          )}
+        </div>
+        {description && (
+          <div className="mt-1 text-sm text-gray-400 break-words">{description}</div>
+        )}
+        {action && (
+          <button
+            type="button"
+            className="mt-2 text-sm font-medium text-blue-400 hover:text-blue-300"
+            onClick={() => {
+              action.onClick()
+              onDismiss?.()
+            }}
+          >
+            {action.label}
+          </button>
+        )}
+      </div>
+      {onDismiss && (
+        <button
+          type="button"
+          className="flex-shrink-0 text-gray-500 hover:text-white"
+          onClick={onDismiss}
+          aria-label="Dismiss"
+        >
+          <X className="size-4" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export { Toast }
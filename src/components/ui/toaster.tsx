@@ -0,0 +1,25 @@
+import { Toast } from "@/components/ui/toast"
+import { useToast } from "@/hooks/use-toast"
+
+// Renders every visible toast; mount once near the root of the app
+function Toaster() {
+  const { toasts, dismiss } = useToast()
+
+  return (
+    <div className="pointer-events-none fixed bottom-4 right-4 z-[100] flex w-full max-w-sm flex-col gap-2">
+      {toasts.map(({ id, title, description, variant, count, action }) => (
+        <Toast
+          key={id}
+          variant={variant}
+          title={title}
+          description={description}
+          count={count}
+          action={action}
+          onDismiss={() => dismiss(id)}
+        />
+      ))}
+    </div>
+  )
+}
+
+export { Toaster }
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+
+export type ToastVariant = "success" | "error" | "info";
+
+export interface ToastAction {
+  label: string; // e.g. "Retry" or "Undo"
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  title: string;
+  description?: string;
+  variant?: ToastVariant;
+  action?: ToastAction;
+  duration?: number; // ms; errors stay a little longer by default
+  // Toasts with the same key replace each other instead of stacking up.
+  // Defaults to the variant, title and description.
+  dedupeKey?: string;
+}
+
+export interface Toast extends ToastOptions {
+  id: string;
+  variant: ToastVariant;
+  count: number; // How many times this toast was raised while visible
+}
+
+// Keep the stack short; the oldest toast goes first
+const MAX_TOASTS = 4;
+const DEFAULT_DURATION: Record<ToastVariant, number> = {
+  success: 4000,
+  info: 4000,
+  error: 8000,
+};
+
+let toasts: Toast[] = [];
+const listeners = new Set<(toasts: Toast[]) => void>();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+const keys = new Map<string, string>(); // toast ID -> dedupe key
+
+const setToasts = (next: Toast[]) => {
+  toasts = next;
+  listeners.forEach(listener => listener(toasts));
+};
+
+const scheduleDismiss = (id: string, duration: number) => {
+  clearTimeout(timers.get(id));
+  timers.set(id, setTimeout(() => dismissToast(id), duration));
+};
+
+/**
+ * Remove a toast
+ * @param id Toast ID returned by `toast()`
+ */
+export function dismissToast(id: string) {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  keys.delete(id);
+  setToasts(toasts.filter(t => t.id !== id));
+}
+
+/**
+ * Show a toast. Works anywhere, including outside React components.
+ * @param options What to show
+ * @returns The toast's ID, for dismissing it early
+ */
+export function toast(options: ToastOptions): string {
+  const variant = options.variant || "info";
+  const key = options.dedupeKey || `${variant}:${options.title}:${options.description || ""}`;
+  const duration = options.duration ?? DEFAULT_DURATION[variant];
+
+  // Already showing: refresh it in place rather than stacking a copy
+  const existing = toasts.find(t => keys.get(t.id) === key);
+  if (existing) {
+    setToasts(toasts.map(t => t.id === existing.id
+      ? { ...t, ...options, variant, count: t.count + 1 }
+      : t));
+    scheduleDismiss(existing.id, duration);
+    return existing.id;
+  }
+
+  const id = uuidv4();
+  keys.set(id, key);
+  const overflow = toasts.slice(0, Math.max(toasts.length + 1 - MAX_TOASTS, 0));
+  overflow.forEach(t => {
+    clearTimeout(timers.get(t.id));
+    timers.delete(t.id);
+    keys.delete(t.id);
+  });
+
+  setToasts([...toasts.slice(overflow.length), { ...options, id, variant, count: 1 }]);
+  scheduleDismiss(id, duration);
+  return id;
+}
+
+/**
+ * Read the visible toasts in a component
+ * @returns Visible toasts plus the functions to raise and dismiss them
+ */
+export function useToast() {
+  const [current, setCurrent] = useState<Toast[]>(toasts);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    setCurrent(toasts);
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  return { toasts: current, toast, dismiss: dismissToast };
+}
@@ -36,6 +36,21 @@ export const getCurrentUser = (): User | null => {
   return auth.currentUser;
 };
 
+// Get the signed-in user's Firebase ID token for authenticating with the backend.
+// Firebase caches it and refreshes it shortly before it expires; pass
+// `forceRefresh` after the backend rejected it.
+export const getIdToken = async (forceRefresh = false): Promise<string | null> => {
+  const user = auth.currentUser;
+  if (!user) return null;
+
+  try {
+    return await user.getIdToken(forceRefresh);
+  } catch (error) {
+    console.error("Error getting ID token:", error);
+    return null;
+  }
+};
+
 // Listen to auth state changes
 export const onAuthChanged = (callback: (user: User | null) => void) => {
   return onAuthStateChanged(auth, callback);
@@ -1,7 +1,8 @@
 import { db } from './firebase';
-import { collection, query, where, orderBy, limit, getDocs, doc, getDoc } from 'firebase/firestore';
+import { collection, query, where, orderBy, limit, limitToLast, startAfter, endBefore, getDocs, doc, getDoc, documentId, type QueryDocumentSnapshot } from 'firebase/firestore';
 import { User } from 'firebase/auth';
-import { fetchWithCORS } from './socket';
+import { fetchWithCORS, type RoomRole, type RoomUser } from './socket';
+import { toast } from '@/hooks/use-toast';
 
 /**
  * Interface for chat message
@@ -15,8 +16,49 @@ export interface ChatMessage {
   userPhotoURL?: string | null;
   timestamp: Date;
   createdAt: Date;
+  seq?: number; // Assigned by the server, increasing by one per room
 }
 
+/**
+ * A message's place in a room: messages are ordered by timestamp, then by ID
+ * so that messages sharing a timestamp still have a fixed order
+ */
+export interface MessagePosition {
+  timestamp: Date;
+  id: string;
+}
+
+/**
+ * Where a page of messages starts: strictly before or after a message
+ */
+export interface MessageCursor {
+  before?: MessagePosition;
+  after?: MessagePosition;
+}
+
+/**
+ * Interface for a page of messages, oldest first
+ */
+export interface MessagePage {
+  messages: ChatMessage[];
+  hasMore: boolean; // Whether there are more messages past the page in the cursor's direction
+}
+
+const toChatMessage = (snapshot: QueryDocumentSnapshot): ChatMessage => {
+  const data = snapshot.data();
+  return {
+    id: snapshot.id,
+    content: data.content,
+    role: data.role,
+    userId: data.userId,
+    userName: data.userName,
+    userPhotoURL: data.userPhotoURL,
+    timestamp: data.timestamp?.toDate() || new Date(),
+    createdAt: data.createdAt?.toDate() || new Date(),
+    seq: data.seq,
+  };
+};
+
 /**
  * Interface for chat room
  */
@@ -147,6 +189,12 @@ export async function getUserChatRooms(user: User | null, maxRooms = 20): Promis
     });
   } catch (error) {
     console.error('Error fetching user chat rooms:', error);
+    // History refreshes in the background, so only show this once at a time
+    toast({
+      variant: 'error',
+      title: "Couldn't load your chat history",
+      dedupeKey: 'load-chat-history',
+    });
     return [];
   }
 }
@@ -184,6 +232,36 @@ export async function getChatRoom(roomId: string): Promise<ChatRoom | null> {
   }
 }
 
+// Entry of a room's participants map, keyed by user ID
+interface StoredParticipant {
+  name?: string;
+  displayName?: string;
+  photoURL?: string | null;
+  role?: RoomRole;
+}
+
+/**
+ * Get everyone who has joined a room, whether or not they're online now
+ * @param roomId Room ID
+ * @returns Members from the room's participants map; empty if the room can't be read
+ */
+export async function getRoomMembers(roomId: string): Promise<RoomUser[]> {
+  try {
+    const roomSnapshot = await getDoc(doc(db, 'rooms', roomId));
+    const participants: Record<string, StoredParticipant | null> = roomSnapshot.data()?.participants || {};
+
+    return Object.entries(participants).map(([id, participant]) => ({
+      id,
+      name: participant?.name || participant?.displayName || 'User',
+      photoURL: participant?.photoURL || null,
+      role: participant?.role,
+    }));
+  } catch (error) {
+    console.error(`Error fetching members of room ${roomId}:`, error);
+    return [];
+  }
+}
+
 /**
  * Get chat room messages
  * @param roomId Room ID
@@ -201,21 +279,66 @@ export async function getChatMessages(roomId: string, maxLimit = 100): Promise<C
     
     const snapshot = await getDocs(q);
     
-    return snapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        content: data.content,
-        role: data.role,
-        userId: data.userId,
-        userName: data.userName,
-        userPhotoURL: data.userPhotoURL,
-        timestamp: data.timestamp?.toDate() || new Date(),
-        createdAt: data.createdAt?.toDate() || new Date(),
-      };
-    });
+    return snapshot.docs.map(toChatMessage);
   } catch (error) {
     console.error(`Error fetching messages for room ${roomId}:`, error);
+    toast({
+      variant: 'error',
+      title: "Couldn't load messages for this chat",
+      dedupeKey: `load-messages-${roomId}`,
+    });
     return [];
   }
 }
+
+/**
+ * Get one page of a room's messages next to a cursor. The cursor holds the
+ * boundary message's ID as well as its timestamp, so messages sharing that
+ * timestamp are neither skipped nor repeated.
+ * @param roomId Room ID
+ * @param cursor Page from before or after this point; the newest page without one
+ * @param pageSize Maximum number of messages in the page
+ * @returns Messages oldest first, and whether there are more in that direction
+ */
+export async function getChatMessagesPage(roomId: string, cursor: MessageCursor = {}, pageSize = 50): Promise<MessagePage> {
+  const messagesRef = collection(db, `rooms/${roomId}/messages`);
+  const byPosition = [orderBy('timestamp', 'asc'), orderBy(documentId(), 'asc')];
+  // Ask for one extra message to learn whether there's another page
+  const q = cursor.after
+    ? query(messagesRef, ...byPosition, startAfter(cursor.after.timestamp, cursor.after.id), limit(pageSize + 1))
+    : cursor.before
+      ? query(messagesRef, ...byPosition, endBefore(cursor.before.timestamp, cursor.before.id), limitToLast(pageSize + 1))
+      : query(messagesRef, ...byPosition, limitToLast(pageSize + 1));
+
+  const snapshot = await getDocs(q);
+  const messages = snapshot.docs.map(toChatMessage);
+  const hasMore = messages.length > pageSize;
+
+  if (!hasMore) return { messages, hasMore };
+  // The extra message is on the far side of the page
+  return { messages: cursor.after ? messages.slice(0, pageSize) : messages.slice(1), hasMore };
+}
+
+/**
+ * Get every message of a room that comes before a given message, page by page
+ * @param roomId Room ID
+ * @param before Position of the message to stop at, which is left out
+ * @param pageSize Number of messages fetched per request
+ * @returns Messages oldest first
+ */
+export async function getChatMessagesBefore(roomId: string, before: MessagePosition, pageSize = 200): Promise<ChatMessage[]> {
+  const pages: ChatMessage[][] = [];
+  let cursor = before;
+  let hasMore = true;
+
+  while (hasMore) {
+    const page = await getChatMessagesPage(roomId, { before: cursor }, pageSize);
+    if (page.messages.length === 0) break;
+
+    pages.unshift(page.messages);
+    cursor = { timestamp: page.messages[0].timestamp, id: page.messages[0].id };
+    hasMore = page.hasMore;
+  }
+
+  return pages.flat();
+}
@@ -0,0 +1,227 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { ROOM_ROLE_LABELS, type ChatInfo, type RoomUser } from './socket';
+
+/**
+ * File formats a conversation can be exported to
+ */
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  html: { label: 'HTML page', extension: 'html', mimeType: 'text/html' },
+};
+
+/**
+ * Interface for a message to export; satisfied by both the live and the stored message types
+ */
+export interface ExportMessage {
+  id: string;
+  content: string;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  userId?: string;
+  userName?: string;
+  editedAt?: Date;
+}
+
+/**
+ * Everything that goes into an export
+ */
+export interface ConversationExport {
+  roomId: string;
+  chatInfo: ChatInfo;
+  participants: RoomUser[]; // The room's members, online or not
+  messages: ExportMessage[];
+}
+
+// Who wrote a message and what they could do in the room
+interface ExportAuthor {
+  name: string;
+  role: string;
+}
+
+const getAuthor = (message: ExportMessage, data: ConversationExport): ExportAuthor => {
+  if (message.role === 'assistant' || message.userId === 'ai') {
+    return { name: data.chatInfo.personaName || 'CollabGPT', role: 'AI' };
+  }
+
+  const participant = data.participants.find(p => p.id === message.userId);
+  return {
+    name: participant?.name || message.userName || 'Anonymous',
+    // Authors who have since left keep no role
+    role: participant ? ROOM_ROLE_LABELS[participant.role || 'editor'] : 'Former participant',
+  };
+};
+
+// Members, then anyone who wrote a message but has since left the room
+const getParticipants = (data: ConversationExport): { id: string; name: string; role: string }[] => {
+  const participants = data.participants.map(p => ({ id: p.id, name: p.name, role: ROOM_ROLE_LABELS[p.role || 'editor'] }));
+
+  for (const message of data.messages) {
+    if (message.role === 'assistant' || !message.userId || message.userId === 'ai') continue;
+    if (participants.some(p => p.id === message.userId)) continue;
+    participants.push({ id: message.userId, ...getAuthor(message, data) });
+  }
+
+  return participants;
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Serialize a conversation to Markdown, one section per message
+ * @param data Conversation to export
+ * @returns Markdown document
+ */
+export function toMarkdown(data: ConversationExport): string {
+  const { chatInfo, messages } = data;
+  const lines = [`# ${chatInfo.title}`, ''];
+
+  if (chatInfo.description) {
+    lines.push(chatInfo.description, '');
+  }
+  lines.push(`Created ${chatInfo.createdAt.toLocaleString()} · Exported ${new Date().toLocaleString()}`, '');
+
+  lines.push('## Participants', '');
+  for (const participant of getParticipants(data)) {
+    lines.push(`- ${participant.name} (${participant.role})`);
+  }
+  lines.push('', '## Conversation', '');
+
+  for (const message of messages) {
+    const author = getAuthor(message, data);
+    const edited = message.editedAt ? ` (edited ${message.editedAt.toLocaleString()})` : '';
+    lines.push(`### ${author.name} · ${author.role} · ${message.timestamp.toLocaleString()}${edited}`, '');
+    lines.push(message.content, '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a conversation to structured JSON with ISO dates
+ * @param data Conversation to export
+ * @returns Pretty-printed JSON document
+ */
+export function toJSON(data: ConversationExport): string {
+  const { roomId, chatInfo, messages } = data;
+
+  return JSON.stringify({
+    format: 'collabgpt-conversation',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    room: {
+      id: roomId,
+      title: chatInfo.title,
+      description: chatInfo.description,
+      createdAt: chatInfo.createdAt.toISOString(),
+      model: chatInfo.model,
+      personaName: chatInfo.personaName,
+    },
+    participants: getParticipants(data),
+    messages: messages.map(message => {
+      const author = getAuthor(message, data);
+      return {
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp.toISOString(),
+        editedAt: message.editedAt?.toISOString(),
+        author: { id: message.userId, name: author.name, role: author.role },
+      };
+    }),
+  }, null, 2);
+}
+
+/**
+ * Serialize a conversation to a self-contained HTML page with inline styles.
+ * Markdown is rendered the same way as in the chat.
+ * @param data Conversation to export
+ * @returns HTML document
+ */
+export function toHTML(data: ConversationExport): string {
+  const { chatInfo, messages } = data;
+
+  const participantItems = getParticipants(data)
+    .map(p => `<li>${escapeHtml(p.name)} <span class="role">${escapeHtml(p.role)}</span></li>`)
+    .join('');
+
+  const messageItems = messages.map(message => {
+    const author = getAuthor(message, data);
+    const body = renderToStaticMarkup(createElement(ReactMarkdown, null, message.content));
+    const edited = message.editedAt ? ' · edited' : '';
+    return `<article class="message ${message.role}">
+  <header><strong>${escapeHtml(author.name)}</strong> <span class="role">${escapeHtml(author.role)}</span>
+  <time datetime="${message.timestamp.toISOString()}">${escapeHtml(message.timestamp.toLocaleString())}${edited}</time></header>
+  <div class="content">${body}</div>
+</article>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(chatInfo.title)}</title>
+<style>
+  body { margin: 0; padding: 2rem; background: #030712; color: #f9fafb; font-family: system-ui, -apple-system, sans-serif; line-height: 1.5; }
+  main { max-width: 48rem; margin: 0 auto; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta, time { color: #9ca3af; font-size: 0.8rem; }
+  .participants { list-style: none; padding: 0; display: flex; flex-wrap: wrap; gap: 0.5rem; }
+  .participants li { background: #1f2937; border-radius: 9999px; padding: 0.25rem 0.75rem; font-size: 0.85rem; }
+  .role { color: #9ca3af; font-size: 0.75rem; margin-right: 0.5rem; }
+  .message { border-radius: 0.5rem; padding: 1rem; margin: 1rem 0; background: #1f2937; }
+  .message.assistant { background: #374151; }
+  .content pre { background: #111827; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; }
+  .content code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+  .content a { color: #60a5fa; }
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(chatInfo.title)}</h1>
+${chatInfo.description ? `<p>${escapeHtml(chatInfo.description)}</p>` : ''}
+<p class="meta">Created ${escapeHtml(chatInfo.createdAt.toLocaleString())} · Exported ${escapeHtml(new Date().toLocaleString())}</p>
+<h2>Participants</h2>
+<ul class="participants">${participantItems}</ul>
+<h2>Conversation</h2>
+${messageItems}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Serialize a conversation and save it as a file
+ * @param data Conversation to export
+ * @param format File format
+ */
+export function downloadConversation(data: ConversationExport, format: ExportFormat): void {
+  const serializers: Record<ExportFormat, (data: ConversationExport) => string> = {
+    markdown: toMarkdown,
+    json: toJSON,
+    html: toHTML,
+  };
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const baseName = data.chatInfo.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'conversation';
+
+  const blob = new Blob([serializers[format](data)], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
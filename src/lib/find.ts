@@ -0,0 +1,96 @@
+/**
+ * Piece of text, marked when it matches the find query
+ */
+export interface FindPart {
+  text: string;
+  match: boolean;
+}
+
+// Look of a highlighted match, shared by plain text and rendered markdown
+export const FIND_MATCH_CLASSES = 'bg-yellow-400/40 text-inherit rounded-sm';
+
+// The few hast (HTML syntax tree) shapes the highlighter needs to know about
+interface HastText {
+  type: 'text';
+  value: string;
+}
+
+interface HastElement {
+  type: 'element';
+  tagName: string;
+  properties: Record<string, unknown>;
+  children: HastNode[];
+}
+
+interface HastParent {
+  type: string;
+  children?: HastNode[];
+}
+
+type HastNode = HastText | HastElement | HastParent;
+
+/**
+ * Split text wherever it contains the query, ignoring case
+ * @param text Text to search
+ * @param query Text to find, matched as a whole phrase
+ * @returns Parts in order; joined, they give back the text
+ */
+export function splitByQuery(text: string, query: string): FindPart[] {
+  const needle = query.toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const parts: FindPart[] = [];
+  const lower = text.toLowerCase();
+  let position = 0;
+  let index = lower.indexOf(needle);
+
+  while (index >= 0) {
+    if (index > position) parts.push({ text: text.slice(position, index), match: false });
+    parts.push({ text: text.slice(index, index + needle.length), match: true });
+    position = index + needle.length;
+    index = lower.indexOf(needle, position);
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), match: false });
+
+  return parts;
+}
+
+/**
+ * Whether text contains the query, ignoring case
+ * @param text Text to search
+ * @param query Text to find
+ */
+export function containsQuery(text: string, query: string): boolean {
+  return text.toLowerCase().includes(query.toLowerCase());
+}
+
+const highlightChildren = (node: HastNode, query: string) => {
+  if (!('children' in node) || !node.children) return;
+
+  node.children = node.children.flatMap((child): HastNode[] => {
+    if (child.type !== 'text') {
+      highlightChildren(child, query);
+      return [child];
+    }
+
+    return splitByQuery((child as HastText).value, query).map((part): HastNode => part.match
+      ? {
+        type: 'element',
+        tagName: 'mark',
+        properties: { className: FIND_MATCH_CLASSES.split(' ') },
+        children: [{ type: 'text', value: part.text }],
+      }
+      : { type: 'text', value: part.text });
+  });
+};
+
+/**
+ * Rehype plugin that wraps every occurrence of the query in rendered markdown
+ * in a `<mark>`. Matches spanning formatting (e.g. half bold) aren't marked.
+ * @param query Text to find
+ */
+export function rehypeFindHighlight(query: string) {
+  return (tree: HastNode) => {
+    if (query) highlightChildren(tree, query);
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Formats conversations can be imported from
+ * - collabgpt: our own JSON export
+ * - chatgpt: ChatGPT's conversations.json, a list of conversation trees
+ */
+export type ImportSource = 'collabgpt' | 'chatgpt';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  collabgpt: 'CollabGPT export',
+  chatgpt: 'ChatGPT export',
+};
+
+/**
+ * Interface for a message read from an export
+ */
+export interface ImportedMessage {
+  content: string;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  userName?: string; // Original author, when the export names one
+}
+
+/**
+ * Interface for one conversation read from an export
+ */
+export interface ImportedConversation {
+  title: string;
+  description?: string;
+  messages: ImportedMessage[];
+}
+
+/**
+ * Something the user should know before importing.
+ * Errors block the import; warnings only explain what was adjusted or dropped.
+ */
+export interface ImportIssue {
+  level: 'error' | 'warning';
+  message: string;
+  conversation?: number; // Index of the conversation it concerns
+}
+
+/**
+ * Result of reading an export file
+ */
+export interface ImportReport {
+  source: ImportSource | null; // Null when the format wasn't recognised
+  conversations: ImportedConversation[];
+  issues: ImportIssue[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accept ISO strings, milliseconds and (ChatGPT's) seconds since the epoch
+const parseTimestamp = (value: unknown): Date | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  if (typeof value === 'string' && value) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const toRole = (value: unknown): ImportedMessage['role'] | null => {
+  if (value === 'user' || value === 'human') return 'user';
+  if (value === 'assistant' || value === 'ai' || value === 'model') return 'assistant';
+  return null;
+};
+
+// Tally of dropped and adjusted messages, reported as one warning per kind
+type IssueCounts = Map<string, number>;
+
+const countIssue = (counts: IssueCounts, message: string) => {
+  counts.set(message, (counts.get(message) || 0) + 1);
+};
+
+const reportCounts = (counts: IssueCounts, issues: ImportIssue[], conversation: number) => {
+  counts.forEach((count, message) => {
+    issues.push({ level: 'warning', message: `${count} ${message}`, conversation });
+  });
+};
+
+// Messages without a usable timestamp take the previous one's, so order is kept
+const fillTimestamps = (
+  raw: { content: string; role: ImportedMessage['role']; timestamp: Date | null; userName?: string }[],
+  fallback: Date,
+  counts: IssueCounts
+): ImportedMessage[] => {
+  let previous = fallback;
+  return raw.map(message => {
+    if (!message.timestamp) {
+      countIssue(counts, 'message(s) had no timestamp and were given the previous one');
+    }
+    const timestamp = message.timestamp || previous;
+    previous = timestamp;
+    return { ...message, timestamp };
+  });
+};
+
+const readCollabGPT = (data: JsonObject, issues: ImportIssue[]): ImportedConversation[] => {
+  const room = isObject(data.room) ? data.room : {};
+  const title = typeof room.title === 'string' && room.title ? room.title : 'Imported conversation';
+  const counts: IssueCounts = new Map();
+  const rawMessages = Array.isArray(data.messages) ? data.messages : [];
+
+  const parsed = rawMessages.flatMap(item => {
+    if (!isObject(item)) {
+      countIssue(counts, 'malformed message(s) were skipped');
+      return [];
+    }
+    const role = toRole(item.role);
+    if (!role) {
+      countIssue(counts, 'message(s) with an unknown role were skipped');
+      return [];
+    }
+    if (typeof item.content !== 'string' || !item.content.trim()) {
+      countIssue(counts, 'empty message(s) were skipped');
+      return [];
+    }
+    const author = isObject(item.author) ? item.author : {};
+    return [{
+      content: item.content,
+      role,
+      timestamp: parseTimestamp(item.timestamp),
+      userName: typeof author.name === 'string' ? author.name : undefined,
+    }];
+  });
+
+  const messages = fillTimestamps(parsed, parseTimestamp(room.createdAt) || new Date(), counts);
+  reportCounts(counts, issues, 0);
+
+  return [{
+    title,
+    description: typeof room.description === 'string' ? room.description : undefined,
+    messages,
+  }];
+};
+
+// The text of a ChatGPT message; parts can also be images and other attachments
+const chatGPTText = (content: unknown, counts: IssueCounts): string => {
+  if (!isObject(content) || !Array.isArray(content.parts)) return '';
+
+  const text = content.parts.filter((part): part is string => typeof part === 'string');
+  if (text.length < content.parts.length) {
+    countIssue(counts, 'attachment(s) that are not text were left out');
+  }
+  return text.join('\n\n');
+};
+
+const readChatGPTConversation = (data: JsonObject, index: number, issues: ImportIssue[]): ImportedConversation => {
+  const title = typeof data.title === 'string' && data.title ? data.title : `Conversation ${index + 1}`;
+  const mapping = isObject(data.mapping) ? data.mapping : {};
+  const counts: IssueCounts = new Map();
+
+  // Conversations are trees (every edit or regeneration branches); follow the
+  // branch that was last shown, from its leaf back to the root
+  const branch: JsonObject[] = [];
+  const visited = new Set<string>();
+  let nodeId = typeof data.current_node === 'string' ? data.current_node : null;
+  while (nodeId && isObject(mapping[nodeId]) && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    const node = mapping[nodeId] as JsonObject;
+    branch.unshift(node);
+    nodeId = typeof node.parent === 'string' ? node.parent : null;
+  }
+
+  if (visited.size < Object.keys(mapping).length && visited.size > 0) {
+    issues.push({
+      level: 'warning',
+      message: 'Only the last shown branch is imported; edited or regenerated alternatives are left out',
+      conversation: index,
+    });
+  }
+
+  const parsed = branch.flatMap(node => {
+    const message = isObject(node.message) ? node.message : null;
+    if (!message) return [];
+
+    const author = isObject(message.author) ? message.author : {};
+    const content = chatGPTText(message.content, counts);
+    // System prompts and hidden context messages are blank; skip them quietly
+    if (!content.trim()) return [];
+
+    const role = toRole(author.role);
+    if (!role) {
+      countIssue(counts, `message(s) from "${String(author.role)}" were skipped`);
+      return [];
+    }
+
+    return [{ content, role, timestamp: parseTimestamp(message.create_time) }];
+  });
+
+  const messages = fillTimestamps(parsed, parseTimestamp(data.create_time) || new Date(), counts);
+  reportCounts(counts, issues, index);
+
+  return { title, messages };
+};
+
+const detectSource = (data: unknown): ImportSource | null => {
+  if (isObject(data) && data.format === 'collabgpt-conversation') return 'collabgpt';
+
+  const candidates = Array.isArray(data) ? data : [data];
+  if (candidates.length > 0 && candidates.every(c => isObject(c) && isObject(c.mapping))) return 'chatgpt';
+
+  return null;
+};
+
+/**
+ * Read an exported conversation file and report anything that stops or changes the import
+ * @param text Contents of the file
+ * @returns The conversations found, and any issues with them
+ */
+export function parseImport(text: string): ImportReport {
+  const issues: ImportIssue[] = [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { source: null, conversations: [], issues: [{ level: 'error', message: 'The file is not valid JSON' }] };
+  }
+
+  const source = detectSource(data);
+  if (!source) {
+    return {
+      source: null,
+      conversations: [],
+      issues: [{ level: 'error', message: 'Not a CollabGPT or ChatGPT export' }],
+    };
+  }
+
+  const conversations = source === 'collabgpt'
+    ? readCollabGPT(data as JsonObject, issues)
+    : (Array.isArray(data) ? data : [data]).map((c, i) => readChatGPTConversation(c as JsonObject, i, issues));
+
+  conversations.forEach((conversation, index) => {
+    if (conversation.messages.length === 0) {
+      issues.push({ level: 'error', message: 'This conversation has no messages to import', conversation: index });
+    }
+  });
+
+  return { source, conversations, issues };
+}
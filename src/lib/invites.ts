@@ -0,0 +1,192 @@
+import { fetchWithCORS, type RoomRole } from './socket';
+
+/**
+ * Interface for a share link that lets people into a room.
+ * Tokens are signed by the server; the client only passes them along.
+ */
+export interface RoomInvite {
+  token: string;
+  roomId: string;
+  role: RoomRole; // What people joining through this link may do
+  createdAt: Date;
+  createdBy: string;
+  expiresAt: Date | null; // Never expires when null
+  maxUses: number | null; // Unlimited when null
+  uses: number;
+}
+
+/**
+ * Options for a new invite
+ */
+export interface NewInvite {
+  role: RoomRole;
+  expiresInHours?: number;
+  maxUses?: number;
+}
+
+/**
+ * Why an invite can't be used
+ */
+export type InviteProblem = 'not-found' | 'expired' | 'revoked' | 'used-up';
+
+export const INVITE_PROBLEM_MESSAGES: Record<InviteProblem, string> = {
+  'not-found': "This invite link isn't valid.",
+  expired: 'This invite link has expired.',
+  revoked: 'This invite link was revoked by the chat owner.',
+  'used-up': 'This invite link has already been used the maximum number of times.',
+};
+
+/**
+ * Result of checking an invite before joining
+ */
+export type InviteValidation =
+  | { valid: true; role: RoomRole; expiresAt: Date | null }
+  | { valid: false; problem: InviteProblem };
+
+// Invites as the API sends them, with dates as strings
+type InvitePayload = Omit<RoomInvite, 'createdAt' | 'expiresAt' | 'maxUses' | 'uses'> & {
+  createdAt: string;
+  expiresAt?: string | null;
+  maxUses?: number | null;
+  uses?: number;
+};
+
+const toInvite = (data: InvitePayload): RoomInvite => ({
+  ...data,
+  createdAt: new Date(data.createdAt),
+  expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+  maxUses: data.maxUses ?? null,
+  uses: data.uses || 0,
+});
+
+/**
+ * Build the link to share for an invite
+ * @param roomId Room ID
+ * @param token Invite token
+ * @returns Full URL
+ */
+export function getInviteUrl(roomId: string, token: string): string {
+  return `${window.location.origin}${getInvitePath(roomId, token)}`;
+}
+
+/**
+ * Build the in-app path an invite link opens
+ * @param roomId Room ID
+ * @param token Invite token
+ * @returns Path with the invite in its query string
+ */
+export function getInvitePath(roomId: string, token: string): string {
+  return `/join/${roomId}?invite=${encodeURIComponent(token)}`;
+}
+
+// Invite opened before signing in, kept for this tab until sign-in finishes
+const PENDING_INVITE_KEY = 'collabgpt_pending_invite';
+
+/**
+ * Remember an invite link opened while signed out, to follow after sign-in
+ * @param roomId Room ID
+ * @param token Invite token
+ */
+export function savePendingInvite(roomId: string, token: string) {
+  sessionStorage.setItem(PENDING_INVITE_KEY, JSON.stringify({ roomId, token }));
+}
+
+/**
+ * Get and forget the invite link opened before signing in
+ * @returns Room ID and token, or null if there is none
+ */
+export function takePendingInvite(): { roomId: string; token: string } | null {
+  const stored = sessionStorage.getItem(PENDING_INVITE_KEY);
+  sessionStorage.removeItem(PENDING_INVITE_KEY);
+
+  try {
+    const pending = stored ? JSON.parse(stored) : null;
+    return typeof pending?.roomId === 'string' && typeof pending?.token === 'string' ? pending : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create an invite link (owner only)
+ * @param roomId Room ID
+ * @param invite Role, expiry and use limit
+ * @returns The new invite
+ */
+export async function createInvite(roomId: string, invite: NewInvite): Promise<RoomInvite> {
+  const response = await fetchWithCORS(`/api/rooms/${roomId}/invites`, {
+    method: 'POST',
+    body: JSON.stringify(invite),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create invite: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return toInvite(data.invite);
+}
+
+/**
+ * List a room's invites that can still be used (owner only)
+ * @param roomId Room ID
+ * @returns Active invites, newest first
+ */
+export async function getActiveInvites(roomId: string): Promise<RoomInvite[]> {
+  const response = await fetchWithCORS(`/api/rooms/${roomId}/invites`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load invites: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const invites: RoomInvite[] = Array.isArray(data.invites) ? data.invites.map(toInvite) : [];
+  return invites.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Stop an invite from letting anyone else in (owner only)
+ * @param roomId Room ID
+ * @param token Invite token
+ */
+export async function revokeInvite(roomId: string, token: string): Promise<void> {
+  const response = await fetchWithCORS(`/api/rooms/${roomId}/invites/${encodeURIComponent(token)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to revoke invite: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Check an invite before joining with it
+ * @param roomId Room ID
+ * @param token Invite token from the link
+ * @returns Whether it can be used, and if not, why
+ */
+export async function validateInvite(roomId: string, token: string): Promise<InviteValidation> {
+  const response = await fetchWithCORS(`/api/rooms/${roomId}/invites/${encodeURIComponent(token)}/validate`);
+
+  if (response.status === 404) {
+    return { valid: false, problem: 'not-found' };
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to check invite: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  if (!data.valid) {
+    // Own keys only, so a reason like 'toString' isn't taken for a known problem
+    // (Object.hasOwn needs a newer lib than this project targets)
+    const isKnown = typeof data.reason === 'string' && Object.prototype.hasOwnProperty.call(INVITE_PROBLEM_MESSAGES, data.reason);
+    const problem: InviteProblem = isKnown ? data.reason : 'not-found';
+    return { valid: false, problem };
+  }
+
+  return {
+    valid: true,
+    role: data.role,
+    expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Interface for the newest message a client has received in a room
+ */
+export interface LastSeenMessage {
+  messageId: string;
+  timestamp: string; // ISO string
+  seq?: number; // Server sequence number, preferred over the timestamp when present
+}
+
+// Stored in localStorage so catch-up also works across reloads
+const LAST_SEEN_KEY = 'collabgpt_last_seen';
+
+function readAll(): Record<string, LastSeenMessage> {
+  try {
+    const stored = localStorage.getItem(LAST_SEEN_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.warn('Could not read last seen messages:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the newest message this client has received in a room
+ * @param roomId Room ID
+ * @returns The last seen message, or null if the room was never loaded
+ */
+export function getLastSeen(roomId: string): LastSeenMessage | null {
+  return readAll()[roomId] || null;
+}
+
+/**
+ * Remember the newest message received in a room
+ * @param roomId Room ID
+ * @param messageId Message ID
+ * @param timestamp When the message was sent
+ * @param seq Server sequence number, if the message has one
+ */
+export function setLastSeen(roomId: string, messageId: string, timestamp: Date, seq?: number) {
+  const all = readAll();
+  if (all[roomId]?.messageId === messageId && all[roomId]?.seq === seq) return;
+
+  all[roomId] = { messageId, timestamp: timestamp.toISOString(), seq };
+  try {
+    localStorage.setItem(LAST_SEEN_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Could not persist last seen message:', error);
+  }
+}
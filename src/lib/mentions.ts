@@ -0,0 +1,96 @@
+import { type MessageMention } from './socket';
+
+/**
+ * Someone who can be mentioned in the composer
+ */
+export interface Mentionable {
+  id: string;
+  name: string;
+}
+
+/**
+ * Piece of message text, optionally belonging to a mention
+ */
+export interface MentionSegment {
+  text: string;
+  mention?: MessageMention;
+}
+
+/**
+ * Find the "@query" being typed right before the caret
+ * @param text Composer text
+ * @param caret Caret position in the text
+ * @returns The partial name and where its "@" starts, or null if the caret isn't in a mention
+ */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const beforeCaret = text.slice(0, caret);
+  const match = /(^|\s)@([^\s@]*)$/.exec(beforeCaret);
+  if (!match) return null;
+
+  return {
+    query: match[2],
+    start: beforeCaret.length - match[2].length - 1,
+  };
+}
+
+/**
+ * Find every "@name" in a message that refers to one of the given users
+ * @param content Message text
+ * @param users Users that can be mentioned
+ * @returns Mentions ordered by position, without overlaps
+ */
+export function extractMentions(content: string, users: Mentionable[]): MessageMention[] {
+  const mentions: MessageMention[] = [];
+  const lowerContent = content.toLowerCase();
+
+  // Try longer names first so "@Ann Lee" wins over "@Ann"
+  const candidates = [...users].sort((a, b) => b.name.length - a.name.length);
+
+  for (const user of candidates) {
+    const token = `@${user.name}`.toLowerCase();
+    let index = lowerContent.indexOf(token);
+
+    while (index >= 0) {
+      const end = index + token.length;
+      const startsWord = index === 0 || /\s/.test(content[index - 1]);
+      const endsWord = end === content.length || /[\s.,!?;:)]/.test(content[end]);
+      const overlaps = mentions.some(m => index < m.end && end > m.start);
+
+      if (startsWord && endsWord && !overlaps) {
+        mentions.push({ userId: user.id, userName: user.name, start: index, end });
+      }
+
+      index = lowerContent.indexOf(token, end);
+    }
+  }
+
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Split message text into plain and mention segments for highlighting
+ * @param content Message text
+ * @param mentions Mentions stored on the message
+ * @returns Segments covering the whole text in order
+ */
+export function splitByMentions(content: string, mentions: MessageMention[] = []): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let cursor = 0;
+
+  for (const mention of [...mentions].sort((a, b) => a.start - b.start)) {
+    // Ignore offsets that don't fit the text (e.g. stale after an edit)
+    if (mention.start < cursor || mention.end > content.length) continue;
+
+    if (mention.start > cursor) {
+      segments.push({ text: content.slice(cursor, mention.start) });
+    }
+    segments.push({ text: content.slice(mention.start, mention.end), mention });
+    cursor = mention.end;
+  }
+
+  if (cursor < content.length) {
+    segments.push({ text: content.slice(cursor) });
+  }
+
+  return segments;
+}
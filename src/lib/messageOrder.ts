@@ -0,0 +1,83 @@
+/**
+ * Interface for anything that can be placed in a room's timeline
+ */
+export interface OrderedMessage {
+  id: string;
+  seq?: number; // Assigned by the server, increasing by one per room
+  timestamp: Date;
+}
+
+/**
+ * Compare two messages for timeline order. Server sequence numbers win so every
+ * collaborator sees the same order; messages the server hasn't numbered yet
+ * (e.g. our own, still sending) go last, by timestamp.
+ * @param a First message
+ * @param b Second message
+ * @returns Negative if `a` comes first, positive if `b` does
+ */
+export function compareMessages(a: OrderedMessage, b: OrderedMessage): number {
+  const aHasSeq = a.seq !== undefined;
+  const bHasSeq = b.seq !== undefined;
+
+  if (aHasSeq && bHasSeq) return a.seq! - b.seq!;
+  if (aHasSeq !== bHasSeq) return aHasSeq ? -1 : 1;
+  return a.timestamp.getTime() - b.timestamp.getTime();
+}
+
+/**
+ * Put messages in timeline order without modifying the input
+ * @param messages Messages in any order
+ * @returns A sorted copy
+ */
+export function sortMessages<T extends OrderedMessage>(messages: T[]): T[] {
+  return [...messages].sort(compareMessages);
+}
+
+/**
+ * Merge incoming messages into a timeline. Messages already present (by ID or
+ * sequence number) are replaced in place, the rest are added, then everything
+ * is put in timeline order.
+ * @param existing Current timeline
+ * @param incoming Messages from the server
+ * @param combine Builds the replacement for a message already present
+ * @returns The merged, sorted timeline
+ */
+export function mergeMessages<T extends OrderedMessage>(
+  existing: T[],
+  incoming: T[],
+  combine: (current: T, next: T) => T = (_current, next) => next
+): T[] {
+  const merged = [...existing];
+
+  for (const message of incoming) {
+    const index = merged.findIndex(m =>
+      m.id === message.id || (m.seq !== undefined && m.seq === message.seq));
+    if (index >= 0) {
+      merged[index] = combine(merged[index], message);
+    } else {
+      merged.push(message);
+    }
+  }
+
+  return sortMessages(merged);
+}
+
+/**
+ * Find the newest message up to which the timeline has no missing sequence
+ * numbers. Anything after it arrived out of order and there is a gap to fill.
+ * @param messages Timeline in order
+ * @returns The last message of the unbroken run, and whether a gap follows it
+ */
+export function findContiguousEnd<T extends OrderedMessage>(messages: T[]): { last: T | undefined; hasGap: boolean } {
+  const numbered = messages.filter(m => m.seq !== undefined);
+  let last = numbered[0];
+
+  for (let i = 1; i < numbered.length; i++) {
+    if (numbered[i].seq! > last.seq! + 1) {
+      return { last, hasGap: true };
+    }
+    last = numbered[i];
+  }
+
+  return { last, hasGap: false };
+}
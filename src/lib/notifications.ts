@@ -0,0 +1,50 @@
+// Original tab title, restored once the user comes back to the tab
+let originalTitle: string | null = null;
+let titleInterval: ReturnType<typeof setInterval> | null = null;
+
+// Ask for notification permission once, from a user action
+export const requestNotificationPermission = () => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+
+  Notification.requestPermission().catch((error) => {
+    console.warn('Could not request notification permission:', error);
+  });
+};
+
+// Blink the tab title until the tab is visible again
+const flashTitle = (text: string) => {
+  if (titleInterval) return;
+
+  originalTitle = document.title;
+  titleInterval = setInterval(() => {
+    document.title = document.title === text ? originalTitle || '' : text;
+  }, 1000);
+
+  const stop = () => {
+    if (document.hidden) return;
+    if (titleInterval) clearInterval(titleInterval);
+    titleInterval = null;
+    document.title = originalTitle || document.title;
+    document.removeEventListener('visibilitychange', stop);
+  };
+  document.addEventListener('visibilitychange', stop);
+};
+
+// Let a user whose tab is in the background know that someone mentioned them
+export const notifyMention = (fromName: string, content: string, roomId: string) => {
+  if (!document.hidden) return;
+
+  flashTitle(`🔔 ${fromName} mentioned you`);
+
+  if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+    const notification = new Notification(`${fromName} mentioned you`, {
+      body: content.length > 120 ? `${content.substring(0, 120)}...` : content,
+      tag: `mention-${roomId}`, // Collapse repeated mentions from the same room
+    });
+
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  }
+};
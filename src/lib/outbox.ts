@@ -0,0 +1,114 @@
+import type { AISettings, OutgoingMessage } from './socket';
+
+/**
+ * Delivery state of a queued entry
+ * - queued: waiting for a connection or its turn
+ * - sending: emitted, waiting for the server's acknowledgement
+ * - failed: rejected or unacknowledged; only retried on request
+ */
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+/**
+ * Interface for a chat message waiting to be delivered
+ */
+export interface OutboxMessage {
+  id: string;
+  kind: 'message';
+  roomId: string;
+  status: OutboxStatus;
+  error?: string;
+  message: OutgoingMessage & { id: string };
+  userId: string;
+  userName: string;
+  userPhotoURL: string | null;
+  createdAt: number;
+}
+
+/**
+ * Interface for an AI request waiting to be delivered
+ */
+export interface OutboxAIRequest {
+  id: string;
+  kind: 'ai-request';
+  roomId: string;
+  status: OutboxStatus;
+  error?: string;
+  afterMessageId?: string; // Held back while this prompt message has failed
+  prompt: string;
+  settings: AISettings;
+  createdAt: number;
+}
+
+export type OutboxEntry = OutboxMessage | OutboxAIRequest;
+
+// Stored in localStorage so queued messages survive reloads
+const OUTBOX_KEY = 'collabgpt_outbox';
+
+const listeners = new Set<(entries: OutboxEntry[]) => void>();
+
+/**
+ * Read every queued entry, oldest first
+ * @returns Queued entries, or an empty list if storage is unreadable
+ */
+export function getOutbox(): OutboxEntry[] {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    const entries = stored ? JSON.parse(stored) : [];
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.warn('Could not read outbox, starting fresh:', error);
+    return [];
+  }
+}
+
+function saveOutbox(entries: OutboxEntry[]) {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Could not persist outbox:', error);
+  }
+  listeners.forEach(listener => listener(entries));
+}
+
+/**
+ * Queue an entry for delivery, after everything already queued
+ * @param entry Message or AI request to deliver
+ */
+export function enqueueOutbox(entry: OutboxEntry) {
+  saveOutbox([...getOutbox().filter(e => e.id !== entry.id), entry]);
+}
+
+/**
+ * Drop an entry once the server has acknowledged it
+ * @param id Entry ID
+ */
+export function removeFromOutbox(id: string) {
+  const entries = getOutbox();
+  if (entries.some(e => e.id === id)) {
+    saveOutbox(entries.filter(e => e.id !== id));
+  }
+}
+
+/**
+ * Update the delivery state of a queued entry
+ * @param id Entry ID
+ * @param changes New status and error
+ */
+export function updateOutboxEntry(id: string, changes: { status: OutboxStatus; error?: string }) {
+  const entries = getOutbox();
+  if (entries.some(e => e.id === id)) {
+    saveOutbox(entries.map(e => e.id === id ? { ...e, ...changes } : e));
+  }
+}
+
+/**
+ * Get notified whenever the outbox changes
+ * @param listener Called with the full list of queued entries
+ * @returns Unsubscribe function
+ */
+export function subscribeOutbox(listener: (entries: OutboxEntry[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,165 @@
+import { User } from 'firebase/auth';
+import { getChatMessagesPage, getUserChatRooms, type ChatMessage, type ChatRoom } from './chats';
+
+/**
+ * Piece of a snippet; matched parts are highlighted
+ */
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Interface for a search result: a room title or a message that contains the query
+ */
+export interface SearchHit {
+  roomId: string;
+  roomTitle: string;
+  messageId?: string; // Not set when only the title matched
+  userName?: string;
+  timestamp: Date;
+  snippet: SnippetPart[];
+}
+
+/**
+ * Interface for the outcome of a search
+ */
+export interface SearchResults {
+  hits: SearchHit[];
+  failedRooms: number; // Rooms whose messages couldn't be read, so weren't searched
+}
+
+// Characters of context shown around the first match
+const SNIPPET_CONTEXT = 40;
+// Rooms searched, and the newest messages read from each
+const MAX_ROOMS = 100;
+const MAX_MESSAGES_PER_ROOM = 500;
+// How long fetched messages are reused between searches
+const CACHE_TTL = 60 * 1000;
+// Rooms fetched at once, to avoid flooding Firestore
+const FETCH_BATCH = 5;
+
+const messageCache = new Map<string, { messages: ChatMessage[]; fetchedAt: number }>();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split a query into the words that must all appear, ignoring case
+ * @param query Search text
+ * @returns Lowercased words
+ */
+export function getSearchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Split text into highlighted and plain parts
+ * @param text Text to highlight
+ * @param terms Words to highlight, from `getSearchTerms`
+ * @returns Parts in order; joined, they give back the text
+ */
+export function highlightTerms(text: string, terms: string[]): SnippetPart[] {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+/**
+ * Cut a piece of text around the first match, collapsing whitespace
+ * @param text Full text
+ * @param terms Words to look for
+ * @returns Highlighted snippet, with ellipses where text was cut
+ */
+export function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const first = Math.min(...terms.map(term => {
+    const index = lower.indexOf(term);
+    return index === -1 ? Infinity : index;
+  }));
+  const start = first === Infinity ? 0 : Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(flat.length, (first === Infinity ? 0 : first) + SNIPPET_CONTEXT * 2);
+
+  const excerpt = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+  return highlightTerms(excerpt, terms);
+}
+
+const matchesAll = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  return terms.every(term => lower.includes(term));
+};
+
+const getRoomMessages = async (roomId: string): Promise<ChatMessage[]> => {
+  const cached = messageCache.get(roomId);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+    return cached.messages;
+  }
+
+  const { messages } = await getChatMessagesPage(roomId, {}, MAX_MESSAGES_PER_ROOM);
+  messageCache.set(roomId, { messages, fetchedAt: Date.now() });
+  return messages;
+};
+
+/**
+ * Search the titles and messages of every room the user belongs to
+ * @param user The current user
+ * @param query Search text; every word must appear
+ * @param isCancelled Checked between fetches so a newer search can take over
+ * @returns Title matches first, then message matches, newest first; rooms that
+ * couldn't be read are counted rather than failing the whole search
+ */
+export async function searchChats(user: User | null, query: string, isCancelled: () => boolean = () => false): Promise<SearchResults> {
+  const terms = getSearchTerms(query);
+  if (!user || terms.length === 0) return { hits: [], failedRooms: 0 };
+
+  const rooms: ChatRoom[] = await getUserChatRooms(user, MAX_ROOMS);
+  const titleHits: SearchHit[] = [];
+  const messageHits: SearchHit[] = [];
+  let failedRooms = 0;
+
+  for (const room of rooms) {
+    if (matchesAll(`${room.title} ${room.description || ''}`, terms)) {
+      titleHits.push({
+        roomId: room.id,
+        roomTitle: room.title,
+        timestamp: room.updatedAt,
+        snippet: highlightTerms(room.title, terms),
+      });
+    }
+  }
+
+  for (let i = 0; i < rooms.length; i += FETCH_BATCH) {
+    if (isCancelled()) return { hits: [], failedRooms: 0 };
+
+    const batch = rooms.slice(i, i + FETCH_BATCH);
+    const results = await Promise.allSettled(batch.map(room => getRoomMessages(room.id)));
+
+    results.forEach((result, j) => {
+      const room = batch[j];
+      if (result.status === 'rejected') {
+        console.error(`Error searching messages for room ${room.id}:`, result.reason);
+        failedRooms++;
+        return;
+      }
+
+      for (const message of result.value) {
+        if (!message.content || !matchesAll(message.content, terms)) continue;
+        messageHits.push({
+          roomId: room.id,
+          roomTitle: room.title,
+          messageId: message.id,
+          userName: message.role === 'assistant' ? 'AI' : message.userName,
+          timestamp: message.timestamp,
+          snippet: buildSnippet(message.content, terms),
+        });
+      }
+    });
+  }
+
+  messageHits.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  return { hits: [...titleHits, ...messageHits], failedRooms };
+}
@@ -0,0 +1,98 @@
+import { fetchWithCORS } from './socket';
+
+/**
+ * Interface for a message frozen into a snapshot
+ */
+export interface SnapshotMessage {
+  id: string;
+  content: string;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  userId?: string;
+  userName?: string;
+  userPhotoURL?: string | null;
+  editedAt?: Date;
+}
+
+/**
+ * Interface for a read-only copy of a conversation, viewable without signing in
+ */
+export interface ChatSnapshot {
+  id: string;
+  roomId: string;
+  title: string;
+  createdAt: Date;
+  createdBy: string; // Name of whoever published it
+  personaName?: string;
+  personaAvatar?: string;
+  messages: SnapshotMessage[];
+}
+
+/**
+ * What the client sends when publishing; the server assigns the ID and date
+ */
+export type NewSnapshot = Omit<ChatSnapshot, 'id' | 'roomId' | 'createdAt'>;
+
+// Snapshots as the API sends them, with dates as strings
+type SnapshotPayload = Omit<ChatSnapshot, 'createdAt' | 'messages'> & {
+  createdAt: string;
+  messages?: (Omit<SnapshotMessage, 'timestamp' | 'editedAt'> & { timestamp: string; editedAt?: string })[];
+};
+
+const toSnapshot = (data: SnapshotPayload): ChatSnapshot => ({
+  ...data,
+  createdAt: new Date(data.createdAt),
+  messages: (data.messages || []).map(message => ({
+    ...message,
+    timestamp: new Date(message.timestamp),
+    editedAt: message.editedAt ? new Date(message.editedAt) : undefined,
+  })),
+});
+
+/**
+ * Build the public link for a snapshot
+ * @param snapshotId Snapshot ID
+ * @returns Full URL
+ */
+export function getSnapshotUrl(snapshotId: string): string {
+  return `${window.location.origin}/s/${snapshotId}`;
+}
+
+/**
+ * Freeze the given messages into a public, read-only snapshot
+ * @param roomId Room the messages come from
+ * @param snapshot Title, author and messages to publish
+ * @returns The published snapshot
+ */
+export async function publishSnapshot(roomId: string, snapshot: NewSnapshot): Promise<ChatSnapshot> {
+  const response = await fetchWithCORS(`/api/rooms/${roomId}/snapshots`, {
+    method: 'POST',
+    body: JSON.stringify(snapshot),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to publish snapshot: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return toSnapshot(data.snapshot);
+}
+
+/**
+ * Load a published snapshot; works without signing in
+ * @param snapshotId Snapshot ID
+ * @returns The snapshot, or null if it doesn't exist
+ */
+export async function getSnapshot(snapshotId: string): Promise<ChatSnapshot | null> {
+  const response = await fetchWithCORS(`/api/snapshots/${encodeURIComponent(snapshotId)}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load snapshot: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return toSnapshot(data.snapshot);
+}
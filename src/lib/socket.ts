@@ -1,5 +1,34 @@
 import { io, Socket } from "socket.io-client";
 import { User } from "firebase/auth";
+import { v4 as uuidv4 } from 'uuid';
+import { isSyncMessagesAck, payloadValidators } from "./socketValidation";
+import { getLastSeen, type LastSeenMessage } from "./lastSeen";
+import { toast } from "@/hooks/use-toast";
+import { getIdToken, signInWithGoogle } from "./auth";
+import { enqueueOutbox, getOutbox, removeFromOutbox, updateOutboxEntry, type OutboxEntry } from "./outbox";
+
+// A previous answer kept when an AI response is regenerated
+export interface MessageVersion {
+  content: string;
+  timestamp: Date;
+  isError?: boolean;
+  isCancelled?: boolean;
+  cancelledBy?: string;
+}
+
+// A previous wording of a user message, kept when the author edits it
+export interface MessageEdit {
+  content: string;
+  writtenAt: Date; // When this wording was sent or last edited
+}
+
+// A collaborator mentioned in a message; offsets cover the "@name" text
+export interface MessageMention {
+  userId: string;
+  userName: string;
+  start: number;
+  end: number;
+}
 
 // Define socket event types
 export interface ChatMessage {
@@ -10,10 +39,30 @@ export interface ChatMessage {
   content: string;
   role: "user" | "assistant";
   timestamp: Date;
+  seq?: number; // Per-room sequence number assigned by the server; defines the order
   isTyping?: boolean;
   isError?: boolean;
+  isStreaming?: boolean; // True while AI chunks are still arriving
+  isCancelled?: boolean; // AI generation was stopped before it finished
+  cancelledBy?: string; // Name of the collaborator who stopped it
+  versions?: MessageVersion[]; // Earlier answers, oldest first; `content` is the latest
+  editedAt?: Date; // Set once the author has edited the message
+  editHistory?: MessageEdit[]; // Earlier wordings, oldest first
+  mentions?: MessageMention[];
 }
 
+// What a collaborator may do in a room
+// - owner: everything, including managing access
+// - editor: chat, edit and change room settings
+// - viewer: read only
+export type RoomRole = 'owner' | 'editor' | 'viewer';
+
+export const ROOM_ROLE_LABELS: Record<RoomRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
 export interface RoomUser {
   id: string;
   name: string;
@@ -21,12 +70,98 @@ export interface RoomUser {
   socketId?: string; // Add socket ID to distinguish between connections
   // Add color coding field if needed
   avatarColor?: string;
+  role?: RoomRole; // Treated as "editor" when the server doesn't say
 }
 
+// Who can get into a room
+// - public-link: anyone with the link who is signed in
+// - invite-only: people with the link ask, the owner approves
+// - private: only people the owner has already let in
+export type RoomVisibility = 'public-link' | 'invite-only' | 'private';
+
+export const ROOM_VISIBILITY_OPTIONS: Record<RoomVisibility, { label: string; description: string }> = {
+  'public-link': {
+    label: 'Anyone with the link',
+    description: 'Anyone with the link can join this chat. They will need to sign in first.',
+  },
+  'invite-only': {
+    label: 'Invite only',
+    description: 'People with the link can ask to join. You decide who gets in.',
+  },
+  private: {
+    label: 'Private',
+    description: 'Only current collaborators can open this chat. The link won\'t let anyone new in.',
+  },
+};
+
+// Whether a role may post messages and change the room
+export const canContribute = (role?: RoomRole) => role !== 'viewer';
+
+// When the AI answers in a room:
+// - always: after every message
+// - mention: only when a message mentions @ai
+// - manual: only when someone presses "Ask AI"
+export type AIMode = "always" | "mention" | "manual";
+
+export const AI_MODE_LABELS: Record<AIMode, string> = {
+  always: "Always",
+  mention: "On @ai mention",
+  manual: "Manual",
+};
+
+// Models a room can choose from
+export const AI_MODELS = [
+  { id: "gpt-4o-mini", label: "GPT-4o mini" },
+  { id: "gpt-4o", label: "GPT-4o" },
+  { id: "gpt-4.1", label: "GPT-4.1" },
+  { id: "o3-mini", label: "o3-mini" },
+];
+
+// Generation parameters sent along with every AI request
+export interface AISettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt?: string;
+}
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  model: "gpt-4o-mini",
+  temperature: 0.7,
+  maxTokens: 1024,
+};
+
 export interface ChatInfo {
   title: string;
   description?: string;
   createdAt: Date;
+  aiMode?: AIMode; // Defaults to "always"
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string; // Instructions that tune the AI for this room
+  personaName?: string; // Shown on AI messages instead of "CollabGPT"
+  personaAvatar?: string; // Emoji or https image URL
+  visibility?: RoomVisibility; // Defaults to "public-link"
+  ownerId?: string;
+}
+
+// Resolve a room's generation parameters, falling back to the defaults
+export const getAISettings = (chatInfo?: Partial<ChatInfo>): AISettings => ({
+  model: chatInfo?.model || DEFAULT_AI_SETTINGS.model,
+  temperature: chatInfo?.temperature ?? DEFAULT_AI_SETTINGS.temperature,
+  maxTokens: chatInfo?.maxTokens ?? DEFAULT_AI_SETTINGS.maxTokens,
+  systemPrompt: chatInfo?.systemPrompt || undefined,
+});
+
+// Human-readable name of a model ID
+export const getModelLabel = (model: string): string =>
+  AI_MODELS.find(m => m.id === model)?.label || model;
+
+// Broadcast when any collaborator changes the room's chat info
+export interface ChatInfoUpdate {
+  roomId: string;
+  chatInfo: Partial<ChatInfo>;
 }
 
 export interface RoomData {
@@ -34,6 +169,38 @@ export interface RoomData {
   users: RoomUser[];
   messages: ChatMessage[];
   chatInfo?: ChatInfo;
+  joinRequests?: JoinRequest[]; // Only sent to the owner
+  hasMoreHistory?: boolean; // Older messages exist beyond `messages`; page them in over REST
+}
+
+// Someone asking to join an invite-only room
+export interface JoinRequest {
+  roomId: string;
+  user: RoomUser;
+  requestedAt: Date;
+}
+
+export interface JoinRequestResolved {
+  roomId: string;
+  userId: string;
+  approved: boolean;
+}
+
+// Our request to join is waiting for the owner
+export interface JoinPending {
+  roomId: string;
+}
+
+// We can't be (or are no longer) in this room
+export interface AccessDenied {
+  roomId: string;
+  reason: 'private' | 'denied' | 'removed';
+  by?: string; // Name of the owner who denied or removed us
+}
+
+export interface RoomUsersUpdated {
+  roomId: string;
+  users: RoomUser[];
 }
 
 export interface TypingIndicator {
@@ -42,15 +209,175 @@ export interface TypingIndicator {
   isTyping: boolean;
 }
 
+// A partial piece of an AI response streamed to everyone in the room
+export interface AIChunk {
+  roomId: string;
+  messageId: string;
+  chunk: string;
+}
+
+// Sent once the AI has finished streaming a response
+export interface AIDone {
+  roomId: string;
+  messageId: string;
+  message?: ChatMessage; // Final message as persisted by the server, if provided
+}
+
+// Broadcast when an author edits one of their messages; everything after
+// it is dropped so the conversation can re-run from that point
+export interface MessageEdited {
+  roomId: string;
+  messageId: string;
+  content: string;
+  editedAt: Date;
+  mentions?: MessageMention[];
+}
+
+// Broadcast when a collaborator asks for a new version of an AI response
+export interface AIRegenerating {
+  roomId: string;
+  messageId: string;
+}
+
+// Broadcast when a collaborator stops an in-flight AI generation
+export interface AICancelled {
+  roomId: string;
+  messageId: string;
+  cancelledBy: {
+    id: string;
+    name: string;
+  };
+}
+
+// Broadcast when someone joins the room
+export interface UserJoined {
+  user: RoomUser;
+  users: RoomUser[];
+}
+
+// Broadcast when someone leaves the room
+export interface UserLeft {
+  userId: string;
+  socketId: string;
+  users: RoomUser[];
+}
+
+// User details sent when joining a room
+export interface JoinUser {
+  uid: string;
+  displayName: string;
+  email: string | null;
+  photoURL: string | null;
+}
+
+// Messages as sent by the client; the server fills in author and timestamp
+export interface OutgoingMessage {
+  id?: string;
+  content: string;
+  role: "user" | "assistant";
+  mentions?: MessageMention[];
+}
+
+// Events the server sends to us
+export interface ServerToClientEvents {
+  'room-history': (data: RoomData) => void;
+  'new-message': (message: ChatMessage) => void;
+  'ai-typing': (message: ChatMessage) => void;
+  'ai-chunk': (chunk: AIChunk) => void;
+  'ai-done': (data: AIDone) => void;
+  'ai-cancelled': (data: AICancelled) => void;
+  'ai-regenerating': (data: AIRegenerating) => void;
+  'message-edited': (data: MessageEdited) => void;
+  'chat-info-updated': (data: ChatInfoUpdate) => void;
+  'typing-indicator': (data: TypingIndicator) => void;
+  'user-joined': (data: UserJoined) => void;
+  'user-left': (data: UserLeft) => void;
+  'room-users-updated': (data: RoomUsersUpdated) => void;
+  'join-request': (data: JoinRequest) => void;
+  'join-request-resolved': (data: JoinRequestResolved) => void;
+  'join-pending': (data: JoinPending) => void;
+  'access-denied': (data: AccessDenied) => void;
+  'error': (error: unknown) => void;
+}
+
+// Acknowledgement the server sends back for queued deliveries
+export interface DeliveryAck {
+  ok: boolean;
+  error?: string;
+}
+
+// Messages the server has for a room after the one we last saw
+export interface SyncMessagesAck {
+  ok: boolean;
+  messages?: ChatMessage[];
+  error?: string;
+}
+
+// Events we send to the server
+export interface ClientToServerEvents {
+  'join-room': (data: { roomId: string; user: JoinUser | null; inviteToken?: string; historyLimit?: number }) => void;
+  'leave-room': (data: { roomId: string }) => void;
+  'latency-ping': (ack: () => void) => void;
+  'sync-messages': (data: { roomId: string; since: LastSeenMessage }, ack: (response: SyncMessagesAck) => void) => void;
+  'send-message': (data: { roomId: string; message: OutgoingMessage }, ack: (response: DeliveryAck) => void) => void;
+  'edit-message': (data: { roomId: string; messageId: string; content: string; mentions?: MessageMention[] }) => void;
+  'user-typing': (data: { roomId: string }) => void;
+  'user-stopped-typing': (data: { roomId: string }) => void;
+  'request-ai-response': (
+    // requestId stays the same across replays so the server can ignore duplicates
+    data: { roomId: string; requestId: string; prompt: string; stream: boolean; settings: AISettings },
+    ack: (response: DeliveryAck) => void
+  ) => void;
+  'regenerate-ai-response': (data: { roomId: string; messageId: string; prompt: string; stream: boolean; settings: AISettings }) => void;
+  'cancel-ai-response': (data: { roomId: string; messageId: string }) => void;
+  'update-chat-info': (data: { roomId: string; chatInfo: Partial<ChatInfo> }) => void;
+  'generate-chat-title': (data: { roomId: string; settings: AISettings }) => void;
+  'user-deleted-chat': (data: { userId: string; roomId: string }) => void;
+  'respond-join-request': (data: { roomId: string; userId: string; approve: boolean; role: RoomRole }) => void;
+  'set-user-role': (data: { roomId: string; userId: string; role: RoomRole }) => void;
+  'remove-user': (data: { roomId: string; userId: string }) => void;
+}
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Raised when the server sends a payload that doesn't match the event contract
+export class SocketPayloadError extends Error {
+  event: string;
+  payload: unknown;
+
+  constructor(event: string, payload: unknown) {
+    super(`Received malformed '${event}' payload from the server`);
+    this.name = 'SocketPayloadError';
+    this.event = event;
+    this.payload = payload;
+  }
+}
+
+// What the connection indicator shows
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline';
+
+export interface ConnectionInfo {
+  state: ConnectionState;
+  transport: string | null; // 'polling' or 'websocket' while connected
+  latency: number | null; // Round trip in ms, from the last ping
+  reconnectAttempts: number;
+  lastError: string | null;
+}
+
 // Socket.io client instance
-let socket: Socket | null = null;
+let socket: AppSocket | null = null;
 let currentRoomId: string | null = null; // Track the current room
+let currentInviteToken: string | undefined; // Invite we joined the current room with
+let hasConnected = false; // Later 'connect' events are reconnects
+
+// How many of the newest messages 'room-history' brings; older ones are paged in
+export const HISTORY_PAGE_SIZE = 50;
 
 // Get the socket server URL from environment variables or use default
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:8080';
 
 // Initialize socket connection with enhanced connection handling
-export const initSocket = (): Socket => {
+export const initSocket = (): AppSocket => {
   if (!socket) {
     console.log(`Connecting to socket server at ${SOCKET_URL}`);
     
@@ -62,10 +389,28 @@ export const initSocket = (): Socket => {
       timeout: 20000,
       autoConnect: true,
       forceNew: true, // Force a new connection
+      // Called on every (re)connection attempt, so a refreshed token is always sent
+      auth: (cb) => {
+        getIdToken().then(token => cb({ token }));
+      },
     });
+    // The first connection attempt is shown the same way as a reconnect
+    setConnectionInfo({ state: 'reconnecting' });
     
     socket.on('connect', () => {
       console.log('Connected to socket server successfully');
+      isRefreshingSocketAuth = false;
+      setConnectionInfo({
+        state: 'connected',
+        transport: socket?.io.engine.transport.name || null,
+        reconnectAttempts: 0,
+        lastError: null,
+      });
+
+      // Polling connections usually upgrade to websocket shortly after connecting
+      socket?.io.engine.once('upgrade', (transport) => {
+        setConnectionInfo({ transport: transport.name });
+      });
       
       // Rejoin current room if there is one (helps with reconnection)
       if (currentRoomId) {
@@ -75,18 +420,45 @@ export const initSocket = (): Socket => {
           : null;
         
         if (socket) {
-          socket.emit('join-room', { roomId: currentRoomId, user });
+          socket.emit('join-room', { roomId: currentRoomId, user, inviteToken: currentInviteToken, historyLimit: HISTORY_PAGE_SIZE });
+        }
+
+        // Fetch whatever was said while we were away
+        if (hasConnected) {
+          requestMissedMessages(currentRoomId, true);
         }
       }
+      hasConnected = true;
+
+      // Deliver anything queued while we were offline
+      flushOutbox();
     });
     
-    socket.on('disconnect', () => {
+    socket.on('disconnect', (reason) => {
       console.log('Disconnected from socket server');
+      // Socket.io only reconnects by itself when we didn't hang up on purpose
+      setConnectionInfo({
+        state: socket?.active ? 'reconnecting' : 'offline',
+        transport: null,
+        latency: null,
+        lastError: reason,
+      });
     });
     
     socket.on('connect_error', (error) => {
       console.error('Socket connection error:', error);
       console.log('Connection error details:', error.message);
+
+      // The server rejected our token; get a fresh one and try again
+      if (isAuthError(error.message)) {
+        handleSocketAuthError();
+        return;
+      }
+
+      setConnectionInfo({
+        state: socket?.active ? 'reconnecting' : 'offline',
+        lastError: error.message,
+      });
       
       // Try to force polling if websocket fails
       if (socket && socket.io.opts && socket.io.opts.transports && 
@@ -101,10 +473,25 @@ export const initSocket = (): Socket => {
     socket.on('error', (error) => {
       console.error('Socket general error:', error);
     });
+
+    // Stop rejoining a room we've been turned away from
+    socket.on('access-denied', (data) => {
+      if (data?.roomId === currentRoomId) {
+        currentRoomId = null;
+      }
+    });
+
+    // Once we're in, the invite has done its job; don't spend more of its uses on reconnects
+    socket.on('room-history', (data) => {
+      if (data?.roomId === currentRoomId) {
+        currentInviteToken = undefined;
+      }
+    });
     
     // Handle reconnect attempts
     socket.io.on('reconnect_attempt', (attempt) => {
       console.log(`Reconnection attempt ${attempt}`);
+      setConnectionInfo({ state: 'reconnecting', reconnectAttempts: attempt });
     });
     
     socket.io.on('reconnect', (attempt) => {
@@ -113,16 +500,150 @@ export const initSocket = (): Socket => {
     
     socket.io.on('reconnect_failed', () => {
       console.error('Failed to reconnect to socket server');
-      // Reset socket so a new connection can be attempted
-      socket = null;
+      // Keep the instance so a manual reconnect keeps every registered handler
+      setConnectionInfo({ state: 'offline' });
+      toast({
+        variant: 'error',
+        title: 'Lost connection to the server',
+        description: 'Messages you send will be delivered once you reconnect.',
+        action: { label: 'Reconnect', onClick: () => reconnectSocket() },
+        dedupeKey: 'connection-lost',
+      });
     });
   }
   
   return socket;
 };
 
+let connectionInfo: ConnectionInfo = {
+  state: 'offline',
+  transport: null,
+  latency: null,
+  reconnectAttempts: 0,
+  lastError: null,
+};
+const connectionListeners = new Set<(info: ConnectionInfo) => void>();
+
+const setConnectionInfo = (changes: Partial<ConnectionInfo>) => {
+  connectionInfo = { ...connectionInfo, ...changes };
+  connectionListeners.forEach(notify => notify(connectionInfo));
+};
+
+export const getConnectionInfo = (): ConnectionInfo => connectionInfo;
+
+// Get notified whenever the connection state changes; returns an unsubscribe function
+export const onConnectionChange = (listener: (info: ConnectionInfo) => void): (() => void) => {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+};
+
+// Measure the round trip to the server; resolves to null if it doesn't answer
+export const measureLatency = async (): Promise<number | null> => {
+  if (!socket?.connected) return null;
+
+  const startedAt = performance.now();
+  try {
+    await socket.timeout(5000).emitWithAck('latency-ping');
+    const latency = Math.round(performance.now() - startedAt);
+    setConnectionInfo({ latency });
+    return latency;
+  } catch {
+    setConnectionInfo({ latency: null });
+    return null;
+  }
+};
+
+// Drop the current connection and start over, trying websocket again
+export const reconnectSocket = () => {
+  const activeSocket = initSocket();
+  activeSocket.io.opts.transports = ['polling', 'websocket'];
+  activeSocket.disconnect();
+  // After disconnect(), whose handler reports the socket as offline
+  setConnectionInfo({ state: 'reconnecting', reconnectAttempts: 0 });
+  activeSocket.connect();
+};
+
+// Handshake rejections from the server's auth middleware
+const isAuthError = (message: string) => /unauthori[sz]ed|authentication|invalid token|token expired/i.test(message);
+
+// Tell the user they need to sign in again; nothing else will get us a valid token
+const toastSessionExpired = () => {
+  toast({
+    variant: 'error',
+    title: 'Your session has expired',
+    description: 'Sign in again to keep chatting.',
+    action: { label: 'Sign in', onClick: () => { signInWithGoogle().then(() => reconnectSocket()).catch(() => {}); } },
+    dedupeKey: 'session-expired',
+  });
+};
+
+let isRefreshingSocketAuth = false;
+
+// Retry the handshake once with a force-refreshed token
+const handleSocketAuthError = async () => {
+  if (isRefreshingSocketAuth) {
+    // The fresh token was rejected as well
+    setConnectionInfo({ state: 'offline', lastError: 'Not authorized' });
+    toastSessionExpired();
+    return;
+  }
+
+  isRefreshingSocketAuth = true;
+  const token = await getIdToken(true);
+  if (!token) {
+    isRefreshingSocketAuth = false;
+    setConnectionInfo({ state: 'offline', lastError: 'Not signed in' });
+    toastSessionExpired();
+    return;
+  }
+
+  socket?.connect();
+};
+
+// Listeners told about payloads that failed validation
+const payloadErrorListeners = new Set<(error: SocketPayloadError) => void>();
+
+// Get notified when a server payload is rejected; returns an unsubscribe function
+export const onSocketPayloadError = (listener: (error: SocketPayloadError) => void): (() => void) => {
+  payloadErrorListeners.add(listener);
+  return () => {
+    payloadErrorListeners.delete(listener);
+  };
+};
+
+// Subscribe to a server event; payloads are validated before reaching the
+// handler so malformed data is reported instead of crashing rendering.
+// Returns an unsubscribe function that only removes this handler.
+export const onSocketEvent = <E extends keyof ServerToClientEvents>(
+  event: E,
+  handler: ServerToClientEvents[E]
+): (() => void) => {
+  const activeSocket = initSocket();
+  const validate = payloadValidators[event] as (payload: unknown) => boolean;
+
+  const listener = (payload: unknown) => {
+    if (!validate(payload)) {
+      const error = new SocketPayloadError(event, payload);
+      console.error(error.message, payload);
+      payloadErrorListeners.forEach(notify => notify(error));
+      return;
+    }
+
+    (handler as (payload: unknown) => void)(payload);
+  };
+
+  // The listener takes `unknown`, so register it on the untyped view of the socket
+  const untypedSocket = activeSocket as Socket;
+  untypedSocket.on(event as string, listener);
+  return () => {
+    untypedSocket.off(event as string, listener);
+  };
+};
+
 // Join a chat room
-export const joinRoom = (roomId: string, user: User | null) => {
+export const joinRoom = (roomId: string, user: User | null, inviteToken?: string) => {
   if (!socket) initSocket();
   
   // If joining a different room than the current one
@@ -133,19 +654,21 @@ export const joinRoom = (roomId: string, user: User | null) => {
     
     // Important: Add a slight delay to ensure server processes the leave event
     setTimeout(() => {
-      actuallyJoinRoom(roomId, user);
+      actuallyJoinRoom(roomId, user, inviteToken);
     }, 100);
   } else {
     // Join the room directly if not leaving another room
-    actuallyJoinRoom(roomId, user);
+    actuallyJoinRoom(roomId, user, inviteToken);
   }
 };
 
 // Helper function to actually join a room
-const actuallyJoinRoom = (roomId: string, user: User | null) => {
+const actuallyJoinRoom = (roomId: string, user: User | null, inviteToken?: string) => {
   currentRoomId = roomId; // Store the current room ID
+  currentInviteToken = inviteToken;
   
-  // Create a safe user object with validated photoURL
+  // Create a safe user object with validated photoURL. These are display
+  // details only; the server identifies us by the handshake token.
   const safeUser = user ? {
     uid: user.uid,
     displayName: user.displayName || 'User',
@@ -158,21 +681,244 @@ const actuallyJoinRoom = (roomId: string, user: User | null) => {
     localStorage.setItem('currentUser', JSON.stringify(safeUser));
   }
   
-  socket?.emit('join-room', { roomId, user: safeUser });
+  // The server checks the invite again; it may have been revoked since we validated it
+  socket?.emit('join-room', { roomId, user: safeUser, inviteToken, historyLimit: HISTORY_PAGE_SIZE });
   console.log(`Joined room ${roomId}`);
+
+  // Deliver anything queued for this room before we joined it
+  flushOutbox();
+};
+
+// Listeners told about messages recovered after a reconnect, with the last
+// message seen before asking. The rejoin's room history can bring the same
+// messages first, so counting what's new should go by `since`.
+type MissedMessagesListener = (roomId: string, messages: ChatMessage[], afterReconnect: boolean, since: LastSeenMessage) => void;
+const missedMessagesListeners = new Set<MissedMessagesListener>();
+
+// Get notified when missed messages have been fetched, either after a
+// reconnect or to fill a sequence gap; returns an unsubscribe function
+export const onMissedMessages = (listener: MissedMessagesListener): (() => void) => {
+  missedMessagesListeners.add(listener);
+  return () => {
+    missedMessagesListeners.delete(listener);
+  };
+};
+
+// Ask the server for messages after the last one we saw in a room. Rooms we've
+// never loaded are left to the regular room history.
+export const requestMissedMessages = async (roomId: string, afterReconnect = false) => {
+  const since = getLastSeen(roomId);
+  if (!socket || !since) return;
+
+  try {
+    const response: unknown = await socket.timeout(ACK_TIMEOUT).emitWithAck('sync-messages', { roomId, since });
+    if (!isSyncMessagesAck(response)) {
+      console.error("Received malformed 'sync-messages' acknowledgement:", response);
+      return;
+    }
+    if (!response.ok) {
+      console.error('Server could not sync missed messages:', response.error);
+      toast({
+        variant: 'error',
+        title: 'Some messages may be missing',
+        description: 'Reload the chat to see the full conversation.',
+        dedupeKey: 'sync-failed',
+      });
+      return;
+    }
+
+    // Ignore the answer if we moved to another room in the meantime
+    if (roomId === currentRoomId) {
+      missedMessagesListeners.forEach(notify => notify(roomId, response.messages || [], afterReconnect, since));
+    }
+  } catch (error) {
+    console.warn('No answer when syncing missed messages:', error);
+  }
+};
+
+// How long to wait for the server to acknowledge a queued delivery
+const ACK_TIMEOUT = 10000;
+let isFlushing = false;
+
+// Check whether the socket is currently connected
+export const isSocketConnected = (): boolean => !!socket?.connected;
+
+// Send a queued entry and wait for the server to acknowledge it
+const deliverOutboxEntry = async (entry: OutboxEntry): Promise<DeliveryAck> => {
+  if (!socket) return { ok: false, error: 'Not connected' };
+
+  if (entry.kind === 'message') {
+    return socket.timeout(ACK_TIMEOUT).emitWithAck('send-message', {
+      roomId: entry.roomId,
+      message: entry.message,
+    });
+  }
+
+  return socket.timeout(ACK_TIMEOUT).emitWithAck('request-ai-response', {
+    roomId: entry.roomId,
+    requestId: entry.id,
+    prompt: entry.prompt,
+    stream: true,
+    settings: entry.settings,
+  });
+};
+
+// Next entry for the current room that can go out: failed entries wait for a
+// manual retry, and so does the AI request for a failed prompt
+const nextDeliverableEntry = (): OutboxEntry | undefined => {
+  const entries = getOutbox().filter(e => e.roomId === currentRoomId);
+  const failedIds = new Set(entries.filter(e => e.status === 'failed').map(e => e.id));
+
+  return entries.find(e =>
+    e.status !== 'failed' &&
+    !(e.kind === 'ai-request' && e.afterMessageId && failedIds.has(e.afterMessageId))
+  );
+};
+
+// Replay queued messages for the current room in order, one at a time,
+// removing each only once the server has acknowledged it
+export const flushOutbox = async () => {
+  if (isFlushing || !socket?.connected || !currentRoomId) return;
+
+  isFlushing = true;
+  try {
+    let entry: OutboxEntry | undefined;
+    while ((entry = nextDeliverableEntry()) && socket?.connected) {
+      updateOutboxEntry(entry.id, { status: 'sending' });
+
+      try {
+        const response = await deliverOutboxEntry(entry);
+        if (response.ok) {
+          removeFromOutbox(entry.id);
+        } else if (entry.kind === 'message') {
+          updateOutboxEntry(entry.id, { status: 'failed', error: response.error || 'Rejected by the server' });
+        } else {
+          // Nothing to show for a refused AI request, so just drop it
+          console.error('Server rejected AI request:', response.error);
+          removeFromOutbox(entry.id);
+          toast({
+            variant: 'error',
+            title: 'The AI request was refused',
+            description: response.error,
+            dedupeKey: 'ai-request-rejected',
+          });
+        }
+      } catch (error) {
+        if (!socket?.connected) {
+          // Lost the connection mid-flight; replay it on reconnect
+          updateOutboxEntry(entry.id, { status: 'queued' });
+          break;
+        }
+
+        console.warn(`No acknowledgement for ${entry.kind}:`, error);
+        if (entry.kind === 'message') {
+          updateOutboxEntry(entry.id, { status: 'failed', error: 'The server did not respond' });
+        } else {
+          // A failed AI request has no message to show a retry on, so drop it
+          // and offer the retry here; the same ID lets the server skip it if
+          // the first attempt did get through
+          const request = entry;
+          removeFromOutbox(request.id);
+          toast({
+            variant: 'error',
+            title: 'The AI request got no answer',
+            action: {
+              label: 'Retry',
+              onClick: () => {
+                enqueueOutbox({ ...request, status: 'queued', error: undefined });
+                flushOutbox();
+              },
+            },
+            dedupeKey: 'ai-request-timeout',
+          });
+        }
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+};
+
+// Try a failed message again
+export const retryMessage = (messageId: string) => {
+  updateOutboxEntry(messageId, { status: 'queued' });
+  flushOutbox();
+};
+
+// Author details stored when joining, used to show queued messages locally
+const getStoredUser = (): JoinUser | null => {
+  try {
+    return JSON.parse(localStorage.getItem('currentUser') || 'null');
+  } catch {
+    return null;
+  }
 };
 
 // Send a message to the room
-export const sendMessage = (roomId: string, content: string, role: "user" | "assistant" = "user", messageId?: string) => {
+export const sendMessage = (
+  roomId: string,
+  content: string,
+  role: "user" | "assistant" = "user",
+  messageId?: string,
+  mentions?: MessageMention[]
+) => {
   if (!socket) initSocket();
-  socket?.emit('send-message', {
+  const user = getStoredUser();
+  const id = messageId || uuidv4(); // Allow passing a message ID to keep consistency
+
+  // Queue first so the message survives a dropped connection or a reload
+  enqueueOutbox({
+    id,
+    kind: 'message',
     roomId,
+    status: 'queued',
     message: {
-      id: messageId, // Allow passing a message ID to keep consistency
+      id,
       content,
       role,
+      mentions,
     },
+    userId: user?.uid || '',
+    userName: user?.displayName || 'User',
+    userPhotoURL: user?.photoURL || null,
+    createdAt: Date.now(),
   });
+  flushOutbox();
+};
+
+// Edit one of your own messages
+export const editMessage = (roomId: string, messageId: string, content: string, mentions?: MessageMention[]) => {
+  if (!socket) initSocket();
+  socket?.emit('edit-message', { roomId, messageId, content, mentions });
+};
+
+// Apply an edit and truncate every message that came after the edited one
+export const applyMessageEdit = <T extends {
+  id: string;
+  content: string;
+  timestamp: Date;
+  editedAt?: Date;
+  editHistory?: MessageEdit[];
+  mentions?: MessageMention[];
+}>(messages: T[], edit: MessageEdited): T[] => {
+  const index = messages.findIndex(m => m.id === edit.messageId);
+  if (index < 0) return messages;
+
+  const original = messages[index];
+
+  return [
+    ...messages.slice(0, index),
+    {
+      ...original,
+      content: edit.content,
+      mentions: edit.mentions,
+      editedAt: new Date(edit.editedAt),
+      editHistory: [
+        ...(original.editHistory || []),
+        { content: original.content, writtenAt: original.editedAt || original.timestamp },
+      ],
+    },
+  ];
 };
 
 // Send typing indicator
@@ -190,18 +936,138 @@ export const sendStoppedTypingIndicator = (roomId: string) => {
 };
 
 // Request AI response
-export const requestAIResponse = (roomId: string, prompt: string) => {
+// The answer is streamed back through 'ai-chunk' events and finalized with 'ai-done'
+// Queued like messages so it is replayed after the prompt it answers
+export const requestAIResponse = (
+  roomId: string,
+  prompt: string,
+  settings: AISettings = DEFAULT_AI_SETTINGS,
+  afterMessageId?: string
+) => {
+  if (!socket) initSocket();
+  enqueueOutbox({
+    id: uuidv4(),
+    kind: 'ai-request',
+    roomId,
+    status: 'queued',
+    afterMessageId,
+    prompt,
+    settings,
+    createdAt: Date.now(),
+  });
+  flushOutbox();
+};
+
+// Ask the AI for another answer to the same prompt; the new version is
+// streamed into the existing message and the old one is kept in `versions`
+export const regenerateAIResponse = (
+  roomId: string,
+  messageId: string,
+  prompt: string,
+  settings: AISettings = DEFAULT_AI_SETTINGS
+) => {
+  if (!socket) initSocket();
+  socket?.emit('regenerate-ai-response', { roomId, messageId, prompt, stream: true, settings });
+};
+
+// Move the current content of a message into its version history
+export const archiveMessageVersion = <T extends {
+  content: string;
+  timestamp: Date;
+  isError?: boolean;
+  isCancelled?: boolean;
+  cancelledBy?: string;
+  versions?: MessageVersion[];
+}>(message: T): T => ({
+  ...message,
+  versions: [
+    ...(message.versions || []),
+    {
+      content: message.content,
+      timestamp: message.timestamp,
+      isError: message.isError,
+      isCancelled: message.isCancelled,
+      cancelledBy: message.cancelledBy,
+    },
+  ],
+  content: "",
+  isError: false,
+  isCancelled: false,
+  cancelledBy: undefined,
+});
+
+// Check whether a message explicitly asks for the AI
+export const mentionsAI = (content: string): boolean => /(^|\s)@ai\b/i.test(content);
+
+// Decide whether sending `content` should trigger an AI response in this mode
+export const shouldInvokeAI = (mode: AIMode | undefined, content: string): boolean => {
+  switch (mode || "always") {
+    case "always":
+      return true;
+    case "mention":
+      return mentionsAI(content);
+    default:
+      return false;
+  }
+};
+
+// Let someone into an invite-only room, or turn them away (owner only)
+export const respondToJoinRequest = (roomId: string, userId: string, approve: boolean, role: RoomRole = 'editor') => {
   if (!socket) initSocket();
-  socket?.emit('request-ai-response', { roomId, prompt });
+  socket?.emit('respond-join-request', { roomId, userId, approve, role });
 };
 
-// Create a new room
-export const createRoom = async (): Promise<string> => {
+// Change what a collaborator may do (owner only)
+export const setUserRole = (roomId: string, userId: string, role: RoomRole) => {
+  if (!socket) initSocket();
+  socket?.emit('set-user-role', { roomId, userId, role });
+};
+
+// Take a collaborator out of the room (owner only)
+export const removeUserFromRoom = (roomId: string, userId: string) => {
+  if (!socket) initSocket();
+  socket?.emit('remove-user', { roomId, userId });
+};
+
+// Stop an in-flight AI response; the partial answer is kept for everyone
+export const cancelAIResponse = (roomId: string, messageId: string) => {
+  if (!socket) initSocket();
+  socket?.emit('cancel-ai-response', { roomId, messageId });
+};
+
+// Append a streamed chunk to the matching AI message, creating it if the
+// 'ai-typing' placeholder hasn't arrived yet
+export const applyAIChunk = <T extends { id: string; content: string; isTyping?: boolean; isStreaming?: boolean }>(
+  messages: T[],
+  chunk: AIChunk,
+  createMessage: () => T
+): T[] => {
+  const index = messages.findIndex(m => m.id === chunk.messageId);
+
+  if (index < 0) {
+    return [...messages, { ...createMessage(), content: chunk.chunk, isTyping: false, isStreaming: true }];
+  }
+
+  const updated = [...messages];
+  const existing = updated[index];
+  updated[index] = {
+    ...existing,
+    // The typing placeholder carries no real content, so start fresh
+    content: existing.isTyping ? chunk.chunk : existing.content + chunk.chunk,
+    isTyping: false,
+    isStreaming: true,
+  };
+  return updated;
+};
+
+// Create a new room, leaving the current one unless it's created in the
+// background (e.g. to import into) and we only switch once that has worked
+export const createRoom = async (leaveCurrentRoom = true): Promise<string> => {
   try {
     if (!socket) initSocket();
     
     // If we're in a room already, leave it first
-    if (currentRoomId) {
+    if (currentRoomId && leaveCurrentRoom) {
       socket?.emit('leave-room', { roomId: currentRoomId });
       console.log(`Left room ${currentRoomId} before creating new room`);
       currentRoomId = null; // Clear current room before creating new one
@@ -223,16 +1089,46 @@ export const createRoom = async (): Promise<string> => {
   }
 };
 
+// Seed a freshly created room with imported history; the server keeps the
+// given timestamps and numbers the messages in order
+export const importRoomMessages = async (
+  roomId: string,
+  chatInfo: Pick<ChatInfo, 'title' | 'description'>,
+  messages: { content: string; role: 'user' | 'assistant'; timestamp: Date; userName?: string }[]
+): Promise<number> => {
+  const response = await fetchWithCORS(`/api/rooms/${roomId}/import`, {
+    method: 'POST',
+    body: JSON.stringify({
+      chatInfo,
+      messages: messages.map(m => ({ ...m, timestamp: m.timestamp.toISOString() })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to import messages: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return typeof data.imported === 'number' ? data.imported : messages.length;
+};
+
 // Update chat info
 export const updateChatInfo = (roomId: string, chatInfo: Partial<ChatInfo>) => {
   if (!socket) initSocket();
   socket?.emit('update-chat-info', { roomId, chatInfo });
 };
 
+// Ask the AI to summarize the conversation into a title; the result arrives
+// for everyone through 'chat-info-updated'
+export const requestAITitle = (roomId: string, settings: AISettings = DEFAULT_AI_SETTINGS) => {
+  if (!socket) initSocket();
+  socket?.emit('generate-chat-title', { roomId, settings });
+};
+
 // Check if room exists
 export const checkRoomExists = async (roomId: string): Promise<boolean> => {
   try {
-    const response = await fetch(`${SOCKET_URL}/api/rooms/${roomId}`);
+    const response = await fetchWithCORS(`/api/rooms/${roomId}`);
     const data = await response.json();
     return data.exists;
   } catch (error) {
@@ -241,6 +1137,17 @@ export const checkRoomExists = async (roomId: string): Promise<boolean> => {
   }
 };
 
+// Tell the user the server didn't confirm a deletion, offering to try again
+const toastDeleteFailed = (userId: string, roomId: string) => {
+  toast({
+    variant: 'error',
+    title: "Couldn't delete the chat on the server",
+    description: 'It may come back the next time your history loads.',
+    action: { label: 'Retry', onClick: () => { deleteUserChat(userId, roomId); } },
+    dedupeKey: `delete-chat-${roomId}`,
+  });
+};
+
 // Delete a chat from user's history
 export const deleteUserChat = async (userId: string, roomId: string): Promise<boolean> => {
   try {
@@ -283,6 +1190,7 @@ export const deleteUserChat = async (userId: string, roomId: string): Promise<bo
       
       if (!response.ok) {
         console.warn(`Delete request returned non-OK status: ${response.status}`);
+        toastDeleteFailed(userId, roomId);
       }
       
       // Emit a socket event to notify server about deletion
@@ -292,6 +1200,7 @@ export const deleteUserChat = async (userId: string, roomId: string): Promise<bo
     } catch (fetchError) {
       clearTimeout(timeoutId);
       console.error('Fetch error while deleting chat:', fetchError);
+      toastDeleteFailed(userId, roomId);
       return true; // Return true so UI updates even if the fetch fails
     }
   } catch (error) {
@@ -332,24 +1241,40 @@ export const testConnection = async (): Promise<{success: boolean, message: stri
   }
 };
 
-// Enhanced fetchWithCORS function
+// Enhanced fetchWithCORS function; authenticates with the user's ID token
 export const fetchWithCORS = async (url: string, options: RequestInit = {}): Promise<Response> => {
   const fullUrl = url.startsWith('http') ? url : `${SOCKET_URL}${url}`;
   
-  const fetchOptions: RequestInit = {
+  const buildOptions = (token: string | null): RequestInit => ({
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
       // Remove credentials header which can cause CORS issues
       ...options.headers,
     },
-    // Use 'omit' instead of 'include' for cross-origin requests
+    // Use 'omit' instead of 'include' for cross-origin requests; the token
+    // travels in the Authorization header instead of cookies
     credentials: 'omit',
     mode: 'cors',
-  };
+  });
   
   try {
-    return await fetch(fullUrl, fetchOptions);
+    const response = await fetch(fullUrl, buildOptions(await getIdToken()));
+    if (response.status !== 401) return response;
+
+    // The token may have expired or been revoked; retry once with a fresh one
+    const freshToken = await getIdToken(true);
+    if (!freshToken) {
+      toastSessionExpired();
+      return response;
+    }
+
+    const retried = await fetch(fullUrl, buildOptions(freshToken));
+    if (retried.status === 401) {
+      toastSessionExpired();
+    }
+    return retried;
   } catch (error) {
     console.error(`Fetch error for ${fullUrl}:`, error);
     throw error;
@@ -0,0 +1,224 @@
+import type {
+  AccessDenied,
+  AICancelled,
+  AIChunk,
+  AIDone,
+  AIRegenerating,
+  ChatInfo,
+  ChatInfoUpdate,
+  ChatMessage,
+  JoinPending,
+  JoinRequest,
+  JoinRequestResolved,
+  MessageEdit,
+  MessageEdited,
+  MessageMention,
+  MessageVersion,
+  RoomData,
+  RoomRole,
+  RoomUser,
+  RoomUsersUpdated,
+  RoomVisibility,
+  ServerToClientEvents,
+  SyncMessagesAck,
+  TypingIndicator,
+  UserJoined,
+  UserLeft,
+} from './socket';
+
+type Validator<T> = (value: unknown) => value is T;
+
+/**
+ * Runtime checks for everything the server sends over the socket.
+ * Dates arrive as strings, so date fields only need to be parseable.
+ */
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isDateLike = (value: unknown): value is Date =>
+  (value instanceof Date || isString(value) || isNumber(value)) && !Number.isNaN(new Date(value).getTime());
+
+const optional = <T>(check: Validator<T>) => (value: unknown): value is T | undefined =>
+  value === undefined || check(value);
+
+const nullable = <T>(check: Validator<T>) => (value: unknown): value is T | null =>
+  value === null || check(value);
+
+const arrayOf = <T>(check: Validator<T>) => (value: unknown): value is T[] =>
+  Array.isArray(value) && value.every(check);
+
+const isRole = (value: unknown): value is ChatMessage['role'] => value === 'user' || value === 'assistant';
+
+const isMessageVersion = (value: unknown): value is MessageVersion =>
+  isObject(value) &&
+  isString(value.content) &&
+  isDateLike(value.timestamp) &&
+  optional(isBoolean)(value.isError) &&
+  optional(isBoolean)(value.isCancelled) &&
+  optional(isString)(value.cancelledBy);
+
+const isMessageEdit = (value: unknown): value is MessageEdit =>
+  isObject(value) && isString(value.content) && isDateLike(value.writtenAt);
+
+const isMessageMention = (value: unknown): value is MessageMention =>
+  isObject(value) &&
+  isString(value.userId) &&
+  isString(value.userName) &&
+  isNumber(value.start) &&
+  isNumber(value.end);
+
+// Author fields are optional on the wire (e.g. AI placeholders), the rest is needed to render
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.content) &&
+  isRole(value.role) &&
+  isDateLike(value.timestamp) &&
+  optional(isNumber)(value.seq) &&
+  optional(isString)(value.userId) &&
+  optional(isString)(value.userName) &&
+  optional(nullable(isString))(value.userPhotoURL) &&
+  optional(isBoolean)(value.isTyping) &&
+  optional(isBoolean)(value.isError) &&
+  optional(arrayOf(isMessageVersion))(value.versions) &&
+  optional(isDateLike)(value.editedAt) &&
+  optional(arrayOf(isMessageEdit))(value.editHistory) &&
+  optional(arrayOf(isMessageMention))(value.mentions);
+
+const isRoomRole = (value: unknown): value is RoomRole =>
+  value === 'owner' || value === 'editor' || value === 'viewer';
+
+const isRoomVisibility = (value: unknown): value is RoomVisibility =>
+  value === 'public-link' || value === 'invite-only' || value === 'private';
+
+const isRoomUser = (value: unknown): value is RoomUser =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  optional(nullable(isString))(value.photoURL) &&
+  optional(isString)(value.socketId) &&
+  optional(isRoomRole)(value.role);
+
+const isJoinRequest = (value: unknown): value is JoinRequest =>
+  isObject(value) && isString(value.roomId) && isRoomUser(value.user) && isDateLike(value.requestedAt);
+
+const isPartialChatInfo = (value: unknown): value is Partial<ChatInfo> =>
+  isObject(value) &&
+  optional(isString)(value.title) &&
+  optional(isString)(value.description) &&
+  optional(isDateLike)(value.createdAt) &&
+  optional((mode: unknown): mode is ChatInfo['aiMode'] => mode === 'always' || mode === 'mention' || mode === 'manual')(value.aiMode) &&
+  optional(isString)(value.model) &&
+  optional(isNumber)(value.temperature) &&
+  optional(isNumber)(value.maxTokens) &&
+  optional(isString)(value.systemPrompt) &&
+  optional(isString)(value.personaName) &&
+  optional(isString)(value.personaAvatar) &&
+  optional(isRoomVisibility)(value.visibility) &&
+  optional(isString)(value.ownerId);
+
+const isChatInfo = (value: unknown): value is ChatInfo =>
+  isPartialChatInfo(value) && isString(value.title);
+
+const isRoomData = (value: unknown): value is RoomData =>
+  isObject(value) &&
+  isString(value.roomId) &&
+  arrayOf(isChatMessage)(value.messages) &&
+  arrayOf(isRoomUser)(value.users) &&
+  optional(isChatInfo)(value.chatInfo) &&
+  optional(arrayOf(isJoinRequest))(value.joinRequests) &&
+  optional(isBoolean)(value.hasMoreHistory);
+
+const hasRoomAndMessageId = (value: unknown): value is { roomId: string; messageId: string } & Record<string, unknown> =>
+  isObject(value) && isString(value.roomId) && isString(value.messageId);
+
+const isAIChunk = (value: unknown): value is AIChunk =>
+  hasRoomAndMessageId(value) && isString(value.chunk);
+
+const isAIDone = (value: unknown): value is AIDone =>
+  hasRoomAndMessageId(value) && optional(isChatMessage)(value.message);
+
+const isAICancelled = (value: unknown): value is AICancelled =>
+  hasRoomAndMessageId(value) &&
+  isObject(value.cancelledBy) &&
+  isString(value.cancelledBy.id) &&
+  isString(value.cancelledBy.name);
+
+const isAIRegenerating = (value: unknown): value is AIRegenerating => hasRoomAndMessageId(value);
+
+const isMessageEdited = (value: unknown): value is MessageEdited =>
+  hasRoomAndMessageId(value) &&
+  isString(value.content) &&
+  isDateLike(value.editedAt) &&
+  optional(arrayOf(isMessageMention))(value.mentions);
+
+const isChatInfoUpdate = (value: unknown): value is ChatInfoUpdate =>
+  isObject(value) && isString(value.roomId) && isPartialChatInfo(value.chatInfo);
+
+const isTypingIndicator = (value: unknown): value is TypingIndicator =>
+  isObject(value) && isString(value.userId) && isString(value.userName) && isBoolean(value.isTyping);
+
+const isUserJoined = (value: unknown): value is UserJoined =>
+  isObject(value) && isRoomUser(value.user) && arrayOf(isRoomUser)(value.users);
+
+const isUserLeft = (value: unknown): value is UserLeft =>
+  isObject(value) && isString(value.userId) && arrayOf(isRoomUser)(value.users);
+
+const isRoomUsersUpdated = (value: unknown): value is RoomUsersUpdated =>
+  isObject(value) && isString(value.roomId) && arrayOf(isRoomUser)(value.users);
+
+const isJoinRequestResolved = (value: unknown): value is JoinRequestResolved =>
+  isObject(value) && isString(value.roomId) && isString(value.userId) && isBoolean(value.approved);
+
+const isJoinPending = (value: unknown): value is JoinPending =>
+  isObject(value) && isString(value.roomId);
+
+const isAccessDenied = (value: unknown): value is AccessDenied =>
+  isObject(value) &&
+  isString(value.roomId) &&
+  (value.reason === 'private' || value.reason === 'denied' || value.reason === 'removed') &&
+  optional(isString)(value.by);
+
+// Acknowledgement for 'sync-messages', checked before merging anything
+export const isSyncMessagesAck = (value: unknown): value is SyncMessagesAck =>
+  isObject(value) &&
+  isBoolean(value.ok) &&
+  optional(arrayOf(isChatMessage))(value.messages) &&
+  optional(isString)(value.error);
+
+// Errors can be anything; handlers only log them
+const isAnything = (value: unknown): value is unknown => {
+  void value;
+  return true;
+};
+
+// One validator per server event, checked by the compiler to stay in sync with the contract
+export const payloadValidators: {
+  [E in keyof ServerToClientEvents]: Validator<Parameters<ServerToClientEvents[E]>[0]>;
+} = {
+  'room-history': isRoomData,
+  'new-message': isChatMessage,
+  'ai-typing': isChatMessage,
+  'ai-chunk': isAIChunk,
+  'ai-done': isAIDone,
+  'ai-cancelled': isAICancelled,
+  'ai-regenerating': isAIRegenerating,
+  'message-edited': isMessageEdited,
+  'chat-info-updated': isChatInfoUpdate,
+  'typing-indicator': isTypingIndicator,
+  'user-joined': isUserJoined,
+  'user-left': isUserLeft,
+  'room-users-updated': isRoomUsersUpdated,
+  'join-request': isJoinRequest,
+  'join-request-resolved': isJoinRequestResolved,
+  'join-pending': isJoinPending,
+  'access-denied': isAccessDenied,
+  'error': isAnything,
+};
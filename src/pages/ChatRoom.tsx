@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useLayoutEffect } from "react";
 import { User } from "firebase/auth";
 import { Button } from "@/components/ui/button";
 import {
@@ -10,61 +10,184 @@ import {
     Settings,
     Share2,
     Users,
-    Loader2
+    Loader2,
+    Square,
+    Sparkles,
+    ChevronDown,
+    Wand2,
+    Wifi,
+    Download,
+    Upload,
+    Search,
+    X
 } from "lucide-react";
 import { ShareDialog } from "@/components/ShareDialog";
-import { useNavigate } from "react-router-dom";
+import { RoomSettingsDialog } from "@/components/RoomSettingsDialog";
+import { ImportDialog } from "@/components/ImportDialog";
+import { ChatSearch } from "@/components/ChatSearch";
+import { FindBar } from "@/components/FindBar";
+import { EditableText } from "@/components/EditableText";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { useLocation, useNavigate } from "react-router-dom";
 import {
     initSocket,
+    onSocketEvent,
+    onSocketPayloadError,
+    onMissedMessages,
+    requestMissedMessages,
+    isSocketConnected,
     joinRoom,
     sendMessage,
+    retryMessage,
     requestAIResponse,
+    regenerateAIResponse,
+    editMessage,
+    applyMessageEdit,
+    cancelAIResponse,
+    archiveMessageVersion,
     createRoom,
+    updateChatInfo,
+    requestAITitle,
+    shouldInvokeAI,
+    getAISettings,
+    getModelLabel,
+    AI_MODE_LABELS,
     sendTypingIndicator,
     sendStoppedTypingIndicator,
+    applyAIChunk,
     type ChatMessage as SocketChatMessage,
+    respondToJoinRequest,
+    setUserRole,
+    removeUserFromRoom,
+    canContribute,
+    HISTORY_PAGE_SIZE,
     type RoomUser,
-    type TypingIndicator as TypingIndicatorType
+    type RoomRole,
+    type JoinRequest,
+    type AccessDenied,
+    type ChatInfo,
+    type AIMode
 } from "@/lib/socket";
-import ReactMarkdown from "react-markdown";
 import UserList from "@/components/UserList";
-import { UserAvatar } from "@/components/ui/UserAvatar";
-import { AIAvatar } from "@/components/ui/AIAvatar";
+import { JoinRequests } from "@/components/JoinRequests";
+import { RoomAccessNotice } from "@/components/RoomAccessNotice";
+import { MessageBubble, type ChatMessage, type DeliveryStatus } from "@/components/MessageBubble";
 import { TypingIndicator } from "@/components/ui/TypingIndicator";
 import ChatHistory from "@/components/ChatHistory";
+import { MentionSuggestions } from "@/components/MentionSuggestions";
+import { extractMentions, getMentionQuery, type Mentionable } from "@/lib/mentions";
+import { toast } from "@/hooks/use-toast";
+import { notifyMention, requestNotificationPermission } from "@/lib/notifications";
+import { setLastSeen } from "@/lib/lastSeen";
+import { findContiguousEnd, mergeMessages, sortMessages } from "@/lib/messageOrder";
+import { getOutbox, subscribeOutbox, type OutboxEntry, type OutboxMessage } from "@/lib/outbox";
+import { publishSnapshot, type ChatSnapshot } from "@/lib/snapshots";
+import { downloadConversation, EXPORT_FORMATS, type ExportFormat } from "@/lib/export";
+import { containsQuery } from "@/lib/find";
+import { getChatMessagesBefore, getChatMessagesPage, getRoomMembers, type ChatMessage as StoredChatMessage } from "@/lib/chats";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { v4 as uuidv4 } from 'uuid';
 
-interface ChatMessage {
-    id: string;
-    content: string;
-    role: "user" | "assistant";
-    timestamp: Date;
-    userId?: string;
-    userName?: string;
-    userPhotoURL?: string | null;
-    isTyping?: boolean;
-    isError?: boolean;
-}
-
 interface ChatRoomProps {
     user: User | null;
     onSignOut: () => Promise<void>;
     roomId?: string;
+    inviteToken?: string; // From an invite link, already validated
 }
 
-interface ChatInfo {
-    title: string;
-    description?: string;
-    createdAt: Date;
-}
+// Convert a message received over the socket into local state, restoring Date objects
+const toChatMessage = (message: SocketChatMessage): ChatMessage => ({
+    ...message,
+    timestamp: new Date(message.timestamp),
+    versions: message.versions?.map(version => ({
+        ...version,
+        timestamp: new Date(version.timestamp)
+    })),
+    editedAt: message.editedAt ? new Date(message.editedAt) : undefined,
+    editHistory: message.editHistory?.map(edit => ({
+        ...edit,
+        writtenAt: new Date(edit.writtenAt)
+    }))
+});
+
+// Convert a message paged in from storage into local state
+const fromStoredMessage = (message: StoredChatMessage): ChatMessage => ({
+    id: message.id,
+    content: message.content,
+    role: message.role,
+    timestamp: message.timestamp,
+    seq: message.seq,
+    userId: message.userId,
+    userName: message.userName,
+    userPhotoURL: message.userPhotoURL
+});
+
+// Part of the conversation as it stands, for snapshots and exports: nothing
+// still generating, queued or failed
+const isSettled = (m: ChatMessage) =>
+    !m.isTyping && !m.isStreaming && !m.isError &&
+    (!m.deliveryStatus || m.deliveryStatus === "sent");
+
+// How close to the edges of the thread counts as being there, in pixels
+const NEAR_BOTTOM = 150;
+const LOAD_OLDER_THRESHOLD = 200;
+
+// When the server sends a message we already have, keep what only this client knows
+const combineMessages = (current: ChatMessage, next: ChatMessage): ChatMessage => ({
+    ...next,
+    // Keep regenerated versions if the server didn't resend them
+    versions: next.versions ?? current.versions,
+    // The server's copy of our optimistic message confirms delivery
+    deliveryStatus: current.deliveryStatus && "sent"
+});
+
+// Queued messages for a room, shown in the thread until the server confirms them
+const getQueuedMessages = (entries: OutboxEntry[], roomId?: string): OutboxMessage[] =>
+    entries.filter((entry): entry is OutboxMessage => entry.kind === "message" && entry.roomId === roomId);
+
+const toDeliveryStatus = (entry: OutboxMessage): DeliveryStatus => {
+    if (entry.status === "failed") return "failed";
+    // Queued while connected means it's next in line
+    return entry.status === "sending" || isSocketConnected() ? "sending" : "pending";
+};
 
-const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) => {
+// Rebuild a queued message for display, e.g. after a reload
+const toQueuedChatMessage = (entry: OutboxMessage): ChatMessage => ({
+    id: entry.message.id,
+    content: entry.message.content,
+    role: entry.message.role,
+    timestamp: new Date(entry.createdAt),
+    userId: entry.userId,
+    userName: entry.userName,
+    userPhotoURL: entry.userPhotoURL,
+    mentions: entry.message.mentions,
+    deliveryStatus: toDeliveryStatus(entry),
+    deliveryError: entry.error
+});
+
+const ChatRoom = ({ user, onSignOut, roomId: initialRoomId, inviteToken }: ChatRoomProps) => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
+    // Latest messages, for socket handlers that need them outside a state update
+    const messagesRef = useRef<ChatMessage[]>([]);
+    // Which version of a regenerated AI message this user is viewing, keyed by message ID
+    const [selectedVersions, setSelectedVersions] = useState<Record<string, number>>({});
     const [inputValue, setInputValue] = useState("");
     const [isLoading, setIsLoading] = useState(false);
     const [sidebarOpen, setSidebarOpen] = useState(true);
     const [roomId, setRoomId] = useState<string | undefined>(initialRoomId);
     const [shareDialogOpen, setShareDialogOpen] = useState(false);
+    const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
+    const [importDialogOpen, setImportDialogOpen] = useState(false);
+    const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
+    // Messages in the outbox for this room that the server hasn't acknowledged yet
+    const [queuedMessages, setQueuedMessages] = useState<OutboxMessage[]>(() => getQueuedMessages(getOutbox(), initialRoomId));
+    // Set while we wait for the owner to let us in, or once we've been turned away
+    const [isAwaitingApproval, setIsAwaitingApproval] = useState(false);
+    const [accessDenied, setAccessDenied] = useState<AccessDenied | null>(null);
+    // People asking to join; only the owner receives these
+    const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+    // How many messages we caught up on after the last reconnect
+    const [caughtUpCount, setCaughtUpCount] = useState<number | null>(null);
     const [roomUsers, setRoomUsers] = useState<RoomUser[]>([]);
     const [typingUsers, setTypingUsers] = useState<Map<string, { name: string, photoURL: string | null }>>(new Map());
     const [chatInfo, setChatInfo] = useState<ChatInfo>({
@@ -75,14 +198,73 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
     // Add state to track if we're switching rooms
     const [isSwitchingRoom, setIsSwitchingRoom] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const messagesContainerRef = useRef<HTMLDivElement>(null);
+    // Only follow new messages while the user is reading the end of the thread
+    const isNearBottomRef = useRef(true);
+    // The first jump to the end is instant, so passing the top doesn't page in history
+    const hasScrolledToEndRef = useRef(false);
+    // Older history: set once the first message of the room is loaded
+    const [reachedStart, setReachedStart] = useState(false);
+    const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+    const loadingOlderRef = useRef(false);
+    // Scroll height and position before older messages were prepended
+    const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
     const navigate = useNavigate();
+    const location = useLocation();
+    // Message to scroll to once it's loaded, e.g. when opened from search
+    const focusMessageId = (location.state as { focusMessageId?: string } | null)?.focusMessageId;
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+    // In-room find: query, author filter ("ai", a user ID or "" for anyone) and current match
+    const [isFindOpen, setIsFindOpen] = useState(false);
+    const [findQuery, setFindQuery] = useState("");
+    const [findAuthor, setFindAuthor] = useState("");
+    const [findIndex, setFindIndex] = useState(0);
+    const findInputRef = useRef<HTMLInputElement>(null);
     const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+    // The "@query" being typed in the composer, if any
+    const [mentionQuery, setMentionQuery] = useState<{ query: string, start: number } | null>(null);
+    const [mentionIndex, setMentionIndex] = useState(0);
     const roomCreatedRef = useRef(false);
+    // Invite from the link we arrived with, used for the first join only
+    const inviteTokenRef = useRef(inviteToken);
+    // AI error messages we've already told the user about
+    const notifiedErrorsRef = useRef(new Set<string>());
+    // Sequence number after which we last asked the server to fill a gap
+    const requestedGapRef = useRef<number | null>(null);
+
+    // Auto scroll to bottom when messages update, unless the user has scrolled
+    // up, or we're showing a search result or stepping through find matches
+    useEffect(() => {
+        if (focusMessageId || highlightedMessageId || isFindOpen || !isNearBottomRef.current) return;
+        messagesEndRef.current?.scrollIntoView({ behavior: hasScrolledToEndRef.current ? "smooth" : "auto" });
+        if (messages.length > 0) hasScrolledToEndRef.current = true;
+    }, [messages, typingUsers, focusMessageId, highlightedMessageId, isFindOpen]);
+
+    // Scroll to the requested message as soon as it's in the thread, then
+    // drop the request so navigating back doesn't repeat it
+    useEffect(() => {
+        if (!focusMessageId) return;
+        const clearFocus = () => navigate(`${location.pathname}${location.search}`, { replace: true, state: null });
+
+        // Scroll to the top to page in older history until the message shows up,
+        // and give up if it never does, e.g. it was deleted since
+        if (!messages.some(m => m.id === focusMessageId)) {
+            if (messagesContainerRef.current) messagesContainerRef.current.scrollTop = 0;
+            const timer = setTimeout(clearFocus, 10000);
+            return () => clearTimeout(timer);
+        }
+
+        document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+        setHighlightedMessageId(focusMessageId);
+        clearFocus();
+    }, [focusMessageId, messages, location.pathname, location.search, navigate]);
 
-    // Auto scroll to bottom when messages update
     useEffect(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-    }, [messages, typingUsers]);
+        if (!highlightedMessageId) return;
+        const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+        return () => clearTimeout(timer);
+    }, [highlightedMessageId]);
 
     // Generate chat title from first message
     useEffect(() => {
@@ -100,13 +282,16 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
                 ...prev,
                 title: newTitle
             }));
+
+            // Only the author of the first message shares the title, so clients don't race
+            if (roomId && firstUserMessage.userId === user?.uid) {
+                updateChatInfo(roomId, { title: newTitle });
+            }
         }
-    }, [messages, chatInfo.title]);
+    }, [messages, chatInfo.title, roomId, user]);
 
     // Initialize socket connection and join/create room
     useEffect(() => {
-        const socket = initSocket();
-
         // Room management logic
         const setupRoom = async () => {
             try {
@@ -120,7 +305,7 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
 
                 // Check if we have a roomId from props (URL param)
                 if (roomId) {
-                    joinRoom(roomId, user);
+                    joinRoom(roomId, user, inviteTokenRef.current);
                     // Store current roomId in localStorage
                     localStorage.setItem('lastRoomId', roomId);
                     roomCreatedRef.current = true;
@@ -149,16 +334,29 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
                 }
             } catch (error) {
                 console.error("Error setting up room:", error);
+                toast({
+                    variant: "error",
+                    title: "Couldn't open this chat",
+                    description: error instanceof Error ? error.message : undefined,
+                    action: { label: "Retry", onClick: () => { setupRoom(); } },
+                    dedupeKey: "setup-room"
+                });
             }
         };
 
         // Handle socket events
-        socket.on('room-history', (data: { roomId: string, messages: SocketChatMessage[], users: RoomUser[], chatInfo?: ChatInfo }) => {
-            // Ensure messages are properly sorted by timestamp
-            setMessages(data.messages.map(msg => ({
-                ...msg,
-                timestamp: new Date(msg.timestamp)
-            })).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+        const offRoomHistory = onSocketEvent('room-history', (data) => {
+            const history = sortMessages(data.messages.map(toChatMessage));
+            // The history is only the newest page; on a rejoin, keep older
+            // messages we've already paged in
+            setMessages(prev => {
+                const oldest = history[0];
+                if (!oldest?.seq) return history;
+                return [...prev.filter(m => m.seq !== undefined && m.seq < oldest.seq!), ...history];
+            });
+            if (!data.hasMoreHistory) setReachedStart(true);
+            // Old failures were already seen, don't raise them again
+            data.messages.forEach(m => m.isError && notifiedErrorsRef.current.add(m.id));
 
             // Ensure unique users by user ID
             const uniqueUsers = data.users.reduce((acc: RoomUser[], user) => {
@@ -170,6 +368,16 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
 
             setRoomUsers(uniqueUsers);
 
+            // Getting the history means we're in, so the invite link isn't needed
+            // anymore; drop it before a reload checks it again after it expires
+            if (inviteTokenRef.current) {
+                inviteTokenRef.current = undefined;
+                navigate(window.location.pathname, { replace: true });
+            }
+            setIsAwaitingApproval(false);
+            setAccessDenied(null);
+            setJoinRequests(data.joinRequests || []);
+
             // If we have chat info from the server, use it
             if (data.chatInfo) {
                 setChatInfo({
@@ -180,48 +388,115 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
         });
 
         // Handle new messages
-        socket.on('new-message', (message: SocketChatMessage) => {
-            setMessages(prev => {
-                // Check if this is updating an existing message (like replacing a typing indicator)
-                const messageIndex = prev.findIndex(m => m.id === message.id);
-                if (messageIndex >= 0) {
-                    const newMessages = [...prev];
-                    newMessages[messageIndex] = {
-                        ...message,
-                        timestamp: new Date(message.timestamp)
-                    };
-                    return newMessages;
-                }
-                // Otherwise add as a new message and sort by timestamp
-                const newTimestamp = new Date(message.timestamp);
-                const updatedMessages = [...prev, {
-                    ...message,
-                    timestamp: newTimestamp
-                }];
-
-                // Always ensure proper timestamp-based sorting
-                return updatedMessages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-            });
+        const offNewMessage = onSocketEvent('new-message', (message) => {
+            // Replaces an existing copy (like a typing indicator or our optimistic
+            // message) by ID, and places it by its sequence number
+            setMessages(prev => mergeMessages(prev, [toChatMessage(message)], combineMessages));
 
             // If this was an AI response, we're no longer loading
             if (message.role === 'assistant') {
                 setIsLoading(false);
             }
+
+            // Let mentioned users know when they're looking at another tab
+            if (user && message.userId !== user.uid && message.mentions?.some(m => m.userId === user.uid)) {
+                notifyMention(message.userName, message.content, roomId || message.id);
+            }
         });
 
         // Handle AI typing indicator
-        socket.on('ai-typing', (message: SocketChatMessage) => {
+        const offAITyping = onSocketEvent('ai-typing', (message) => {
             setMessages(prev => {
+                // Streaming may already have started for this message
+                if (prev.some(m => m.id === message.id)) return prev;
+
                 // Add typing indicator message
-                return [...prev, {
-                    ...message,
-                    timestamp: new Date(message.timestamp)
-                }];
+                return sortMessages([...prev, toChatMessage(message)]);
             });
         });
 
+        // Handle streamed AI response chunks
+        const offAIChunk = onSocketEvent('ai-chunk', (chunk) => {
+            setMessages(prev => applyAIChunk(prev, chunk, () => ({
+                id: chunk.messageId,
+                content: "",
+                role: "assistant",
+                timestamp: new Date(),
+                userId: "ai",
+                userName: "CollabGPT",
+                userPhotoURL: null
+            })));
+        });
+
+        // Handle the end of a streamed AI response
+        const offAIDone = onSocketEvent('ai-done', (data) => {
+            // The final copy may carry the message's sequence number, so re-sort
+            setMessages(prev => sortMessages(prev.map(m => {
+                if (m.id !== data.messageId) return m;
+
+                // Prefer the server's final copy so everyone ends up with identical content
+                return data.message ? {
+                    ...toChatMessage(data.message),
+                    versions: data.message.versions ? toChatMessage(data.message).versions : m.versions,
+                    isTyping: false,
+                    isStreaming: false
+                } : { ...m, isTyping: false, isStreaming: false };
+            })));
+
+            setIsLoading(false);
+        });
+
+        // Handle a collaborator regenerating an AI response
+        const offAIRegenerating = onSocketEvent('ai-regenerating', (data) => {
+            setMessages(prev => prev.map(m => m.id === data.messageId
+                ? { ...archiveMessageVersion(m), isTyping: true, timestamp: new Date() }
+                : m));
+
+            // Jump every viewer to the new version as it streams in
+            setSelectedVersions(prev => {
+                const next = { ...prev };
+                delete next[data.messageId];
+                return next;
+            });
+        });
+
+        // Handle chat info changes made by any collaborator (or the AI title generator)
+        const offChatInfoUpdated = onSocketEvent('chat-info-updated', (data) => {
+            if (data.roomId !== roomId) return;
+
+            setChatInfo(prev => ({
+                ...prev,
+                ...data.chatInfo,
+                createdAt: data.chatInfo.createdAt ? new Date(data.chatInfo.createdAt) : prev.createdAt
+            }));
+
+            if (data.chatInfo.title) {
+                setIsGeneratingTitle(false);
+            }
+        });
+
+        // Handle a collaborator editing their message; later messages are dropped
+        const offMessageEdited = onSocketEvent('message-edited', (data) => {
+            setMessages(prev => applyMessageEdit(prev, data));
+        });
+
+        // Handle an AI response being stopped by any collaborator
+        const offAICancelled = onSocketEvent('ai-cancelled', (data) => {
+            setMessages(prev => prev.map(m => m.id === data.messageId ? {
+                ...m,
+                // Drop the placeholder text if nothing was generated yet
+                content: m.isTyping ? "" : m.content,
+                isTyping: false,
+                isStreaming: false,
+                isCancelled: true,
+                cancelledBy: data.cancelledBy.name
+            } : m));
+
+            setIsLoading(false);
+        });
+
         // Handle user typing indicator
-        socket.on('typing-indicator', (data: TypingIndicatorType) => {
+        const offTypingIndicator = onSocketEvent('typing-indicator', (data) => {
             console.log('Typing indicator received:', data);
             setTypingUsers(prev => {
                 const newMap = new Map(prev);
@@ -244,7 +519,7 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
         });
 
         // Handle user joining
-        socket.on('user-joined', (data: { user: RoomUser, users: RoomUser[] }) => {
+        const offUserJoined = onSocketEvent('user-joined', (data) => {
             // Ensure unique users by user ID
             const uniqueUsers = data.users.reduce((acc: RoomUser[], user) => {
                 if (!acc.some(u => u.id === user.id)) {
@@ -257,7 +532,7 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
         });
 
         // Handle user leaving
-        socket.on('user-left', (data: { userId: string, socketId: string, users: RoomUser[] }) => {
+        const offUserLeft = onSocketEvent('user-left', (data) => {
             // Ensure unique users by user ID
             const uniqueUsers = data.users.reduce((acc: RoomUser[], user) => {
                 if (!acc.some(u => u.id === user.id)) {
@@ -276,30 +551,189 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
             });
         });
 
+        // Roles changed or someone was removed
+        const offRoomUsersUpdated = onSocketEvent('room-users-updated', (data) => {
+            if (data.roomId !== roomId) return;
+            setRoomUsers(data.users.filter((u, i) => data.users.findIndex(other => other.id === u.id) === i));
+        });
+
+        // Our request to join an invite-only room is waiting for the owner
+        const offJoinPending = onSocketEvent('join-pending', (data) => {
+            if (data.roomId === roomId) setIsAwaitingApproval(true);
+        });
+
+        // Turned away or removed from the room
+        const offAccessDenied = onSocketEvent('access-denied', (data) => {
+            if (data.roomId !== roomId) return;
+
+            setIsAwaitingApproval(false);
+            setAccessDenied(data);
+            setMessages([]);
+            setRoomUsers([]);
+            // Don't reopen this room next time
+            if (localStorage.getItem('lastRoomId') === roomId) {
+                localStorage.removeItem('lastRoomId');
+            }
+        });
+
+        // Someone is asking the owner to let them in
+        const offJoinRequest = onSocketEvent('join-request', (request) => {
+            if (request.roomId !== roomId) return;
+
+            setJoinRequests(prev => [...prev.filter(r => r.user.id !== request.user.id), request]);
+            toast({
+                variant: "info",
+                title: `${request.user.name} is asking to join`,
+                description: "Approve or deny them from the chat info in the sidebar.",
+                dedupeKey: `join-request-${request.user.id}`
+            });
+        });
+
+        // A request was handled, possibly by the owner in another tab
+        const offJoinRequestResolved = onSocketEvent('join-request-resolved', (data) => {
+            if (data.roomId !== roomId) return;
+            setJoinRequests(prev => prev.filter(r => r.user.id !== data.userId));
+        });
+
         setupRoom();
 
         // Cleanup on unmount
         return () => {
-            socket.off('room-history');
-            socket.off('new-message');
-            socket.off('ai-typing');
-            socket.off('user-joined');
-            socket.off('user-left');
-            socket.off('typing-indicator');
+            offRoomHistory();
+            offNewMessage();
+            offAITyping();
+            offAIChunk();
+            offAIDone();
+            offAIRegenerating();
+            offMessageEdited();
+            offAICancelled();
+            offTypingIndicator();
+            offUserJoined();
+            offUserLeft();
+            offChatInfoUpdated();
+            offRoomUsersUpdated();
+            offJoinPending();
+            offAccessDenied();
+            offJoinRequest();
+            offJoinRequestResolved();
         };
     }, [user, roomId, navigate]);
 
+    // Keep queued messages in sync with the outbox
+    useEffect(() => {
+        setQueuedMessages(getQueuedMessages(getOutbox(), roomId));
+        return subscribeOutbox((entries) => setQueuedMessages(getQueuedMessages(entries, roomId)));
+    }, [roomId]);
+
+    // Remember the newest message we have everything up to, so a reconnect
+    // only needs to fetch what came after it, and fill any sequence gap
+    useEffect(() => {
+        if (!roomId) return;
+
+        const { last, hasGap } = findContiguousEnd(messages);
+        const settled = messages
+            .slice(0, last ? messages.indexOf(last) + 1 : messages.length)
+            .filter(m => !m.isTyping && !m.isStreaming && (!m.deliveryStatus || m.deliveryStatus === "sent"));
+        const lastSettled = settled[settled.length - 1];
+        if (lastSettled) {
+            setLastSeen(roomId, lastSettled.id, lastSettled.timestamp, lastSettled.seq);
+        }
+
+        // Ask once per gap, in case the server can't fill it
+        if (hasGap && last?.seq !== undefined && requestedGapRef.current !== last.seq) {
+            requestedGapRef.current = last.seq;
+            requestMissedMessages(roomId);
+        }
+    }, [messages, roomId]);
+
+    // Merge in whatever we missed while disconnected
+    useEffect(() => {
+        return onMissedMessages((syncedRoomId, missed, afterReconnect, since) => {
+            if (syncedRoomId !== roomId) return;
+
+            const incoming = missed.map(toChatMessage);
+            if (afterReconnect) {
+                // The rejoin's history may already have brought these in, so count
+                // everything after the last message seen before the disconnect
+                const sinceTime = new Date(since.timestamp).getTime();
+                const caughtUp = mergeMessages(messagesRef.current, incoming, combineMessages).filter(m =>
+                    m.id !== since.messageId && !m.isTyping &&
+                    (since.seq !== undefined && m.seq !== undefined ? m.seq > since.seq : m.timestamp.getTime() > sinceTime));
+                setCaughtUpCount(caughtUp.length);
+            }
+            setMessages(prev => mergeMessages(prev, incoming, combineMessages));
+        });
+    }, [roomId]);
+
+    useEffect(() => {
+        messagesRef.current = messages;
+    }, [messages]);
+
+    // The reconnect banner only needs to be seen briefly
+    useEffect(() => {
+        if (caughtUpCount === null) return;
+        const timer = setTimeout(() => setCaughtUpCount(null), 6000);
+        return () => clearTimeout(timer);
+    }, [caughtUpCount]);
+
+    // Surface malformed server payloads instead of letting them break rendering
+    useEffect(() => {
+        return onSocketPayloadError((error) => {
+            toast({
+                variant: "error",
+                title: "Unexpected update from the server",
+                description: `Couldn't read a '${error.event}' update. Some of the conversation may be out of date.`,
+                dedupeKey: `payload-${error.event}`
+            });
+        });
+    }, []);
+
+    // Tell the user when the AI couldn't answer, once per failed message
+    useEffect(() => {
+        if (!roomId) return;
+
+        messages.forEach((message, index) => {
+            if (message.role !== "assistant" || !message.isError || notifiedErrorsRef.current.has(message.id)) return;
+            notifiedErrorsRef.current.add(message.id);
+
+            const prompt = messages.slice(0, index).reverse().find(m => m.role === "user");
+            const settings = getAISettings(chatInfo);
+            toast({
+                variant: "error",
+                title: "The AI couldn't answer",
+                description: message.content.slice(0, 140),
+                dedupeKey: `ai-error-${message.id}`,
+                action: prompt ? {
+                    label: "Retry",
+                    onClick: () => {
+                        setIsLoading(true);
+                        regenerateAIResponse(roomId, message.id, prompt.content, settings);
+                    }
+                } : undefined
+            });
+        });
+    }, [messages, roomId, chatInfo]);
+
     // Add debugging log for typing users
     useEffect(() => {
         console.log('Current typing users:', Array.from(typingUsers.keys()));
     }, [typingUsers]);
 
+    // What we're allowed to do here; the server enforces the same rules
+    const myRole = roomUsers.find(u => u.id === user?.uid)?.role;
+    const isOwner = myRole === "owner" || (!!user && chatInfo.ownerId === user.uid);
+    const canEdit = canContribute(myRole);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (inputValue.trim() === "" || isLoading || !roomId) return;
+        if (inputValue.trim() === "" || isLoading || !roomId || !canEdit) return;
+
+        const askAI = shouldInvokeAI(chatInfo.aiMode, inputValue);
 
         setInputValue("");
-        setIsLoading(true);
+        // Only lock the composer when we're actually waiting on the AI; while
+        // offline the request sits in the outbox and the composer stays usable
+        setIsLoading(askAI && isSocketConnected());
 
         try {
             // Clear typing indicator when sending message
@@ -311,19 +745,394 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
 
             // Generate a message ID to track this message
             const messageId = uuidv4();
+            const mentions = extractMentions(inputValue, mentionables);
+
+            // Show the message right away, and follow it to the end of the
+            // thread; the server's copy replaces it by ID
+            isNearBottomRef.current = true;
+            setMessages(prev => [...prev, {
+                id: messageId,
+                content: inputValue,
+                role: "user",
+                timestamp: new Date(),
+                userId: user?.uid,
+                userName: user?.displayName || "Anonymous",
+                userPhotoURL: user?.photoURL,
+                mentions,
+                deliveryStatus: "sending"
+            }]);
+
+            // Send message via socket with the generated ID and any @mentions
+            sendMessage(roomId, inputValue, "user", messageId, mentions);
+            setMentionQuery(null);
+            requestNotificationPermission();
+
+            // Request AI response unless the room's AI mode says to stay quiet
+            if (askAI) {
+                requestAIResponse(roomId, inputValue, getAISettings(chatInfo), messageId);
+            }
+        } catch (error) {
+            console.error("Failed to send message:", error);
+            toast({ variant: "error", title: "Couldn't send your message" });
+            setIsLoading(false);
+        }
+    };
+
+    // Messages we know about, with delivery state taken from the outbox, followed by
+    // queued messages from an earlier session that aren't in the thread yet
+    const queuedById = new Map(queuedMessages.map(entry => [entry.id, entry]));
+    const visibleMessages: ChatMessage[] = [
+        ...messages.map(message => {
+            const entry = queuedById.get(message.id);
+            if (entry) {
+                return { ...message, deliveryStatus: toDeliveryStatus(entry), deliveryError: entry.error };
+            }
+            // Acknowledged, even if the server's copy hasn't arrived yet
+            return message.deliveryStatus ? { ...message, deliveryStatus: "sent" as const } : message;
+        }),
+        ...queuedMessages
+            .filter(entry => !messages.some(m => m.id === entry.id))
+            .map(toQueuedChatMessage)
+    ];
+
+    // A failed prompt holds back its AI request, so stop waiting on the AI
+    const hasFailedMessage = queuedMessages.some(entry => entry.status === "failed");
+    useEffect(() => {
+        if (hasFailedMessage) setIsLoading(false);
+    }, [hasFailedMessage]);
 
-            // IMPORTANT CHANGE: Don't add message to local state immediately
-            // Instead, send the message with its ID and let the socket event handle displaying it
+    const hasOlderMessages = !reachedStart && messages.length > 0;
 
-            // Send message via socket with the generated ID
-            sendMessage(roomId, inputValue, "user", messageId);
+    // Page in the messages before the oldest one we have
+    const loadOlderMessages = async () => {
+        const oldest = messages[0];
+        if (!roomId || !oldest || reachedStart || loadingOlderRef.current) return;
+
+        loadingOlderRef.current = true;
+        setIsLoadingOlder(true);
+        try {
+            const page = await getChatMessagesPage(roomId, { before: { timestamp: oldest.timestamp, id: oldest.id } }, HISTORY_PAGE_SIZE);
 
-            // Request AI response
-            requestAIResponse(roomId, inputValue);
+            // Remember where the reader is so prepending doesn't move the thread
+            const container = messagesContainerRef.current;
+            if (container) {
+                scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+            }
+            // Our copies are at least as fresh as stored ones
+            setMessages(prev => mergeMessages(prev, page.messages.map(fromStoredMessage), current => current));
+            if (!page.hasMore) setReachedStart(true);
         } catch (error) {
-            console.error("Failed to send message:", error);
-            setIsLoading(false);
+            console.error("Failed to load older messages:", error);
+            toast({
+                variant: "error",
+                title: "Couldn't load older messages",
+                action: { label: "Retry", onClick: () => { loadOlderMessages(); } },
+                dedupeKey: "load-older-messages"
+            });
+        } finally {
+            loadingOlderRef.current = false;
+            setIsLoadingOlder(false);
+        }
+    };
+
+    // Page in everything before the oldest message we have, for the things that
+    // need the whole conversation; resolves with the full thread
+    const loadFullHistory = async (): Promise<ChatMessage[]> => {
+        const oldest = messages[0];
+        if (!roomId || !oldest || reachedStart) return messages;
+
+        loadingOlderRef.current = true;
+        setIsLoadingOlder(true);
+        try {
+            const older = (await getChatMessagesBefore(roomId, { timestamp: oldest.timestamp, id: oldest.id }))
+                .map(fromStoredMessage);
+
+            const container = messagesContainerRef.current;
+            if (container) {
+                scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+            }
+            setMessages(prev => mergeMessages(prev, older, current => current));
+            setReachedStart(true);
+            return mergeMessages(messages, older, current => current);
+        } finally {
+            loadingOlderRef.current = false;
+            setIsLoadingOlder(false);
+        }
+    };
+
+    // Keep the same messages in view after older ones are added above them
+    useLayoutEffect(() => {
+        const saved = scrollRestoreRef.current;
+        const container = messagesContainerRef.current;
+        if (!saved || !container) return;
+
+        container.scrollTop = container.scrollHeight - saved.height + saved.top;
+        scrollRestoreRef.current = null;
+    }, [messages]);
+
+    const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+        isNearBottomRef.current = scrollHeight - scrollTop - clientHeight < NEAR_BOTTOM;
+
+        if (scrollTop < LOAD_OLDER_THRESHOLD && hasOlderMessages) {
+            loadOlderMessages();
+        }
+    };
+
+    // In-room find: messages matching the query and author filter, in thread order
+    const trimmedFindQuery = findQuery.trim();
+    const isFinding = isFindOpen && (trimmedFindQuery !== "" || findAuthor !== "");
+    const findMatches = isFinding
+        ? visibleMessages.filter(m =>
+            (!findAuthor || m.userId === findAuthor) &&
+            (!trimmedFindQuery || containsQuery(m.content, trimmedFindQuery)))
+        : [];
+    const findPosition = Math.max(0, Math.min(findIndex, findMatches.length - 1));
+    const currentFindMatchId = findMatches[findPosition]?.id;
+
+    // Everyone who has written here or is here now, plus the AI
+    const findAuthors = [
+        { id: "ai", name: chatInfo.personaName || "AI" },
+        ...[...roomUsers, ...messages.map(m => ({ id: m.userId || "", name: m.userName || "" }))]
+            .filter((a, i, all) => a.id && a.id !== "ai" && a.name && all.findIndex(b => b.id === a.id) === i)
+            .map(a => ({ id: a.id, name: a.id === user?.uid ? `${a.name} (you)` : a.name }))
+    ];
+
+    // Newest match first, like starting from the bottom of the thread
+    const resetFindPosition = () => setFindIndex(Number.MAX_SAFE_INTEGER);
+
+    const stepFind = (direction: 1 | -1) => {
+        if (findMatches.length === 0) return;
+        setFindIndex((findPosition + direction + findMatches.length) % findMatches.length);
+    };
+
+    const openFind = () => {
+        setIsFindOpen(true);
+        resetFindPosition();
+        findInputRef.current?.focus();
+        findInputRef.current?.select();
+    };
+
+    // Find runs over the loaded messages, so bring in the rest of the history
+    // as soon as there's something to find
+    const loadHistoryForFind = () => {
+        if (reachedStart || loadingOlderRef.current) return;
+
+        loadFullHistory().catch((error) => {
+            console.error("Failed to load history for find:", error);
+            toast({
+                variant: "error",
+                title: "Couldn't search older messages",
+                action: { label: "Retry", onClick: loadHistoryForFind },
+                dedupeKey: "find-history"
+            });
+        });
+    };
+
+    const closeFind = () => {
+        setIsFindOpen(false);
+        inputRef.current?.focus();
+    };
+
+    // Bring the current match into view
+    useEffect(() => {
+        if (currentFindMatchId) {
+            document.getElementById(`message-${currentFindMatchId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
         }
+    }, [currentFindMatchId]);
+
+    // Ctrl/Cmd+F opens find instead of the browser's, which misses messages that
+    // aren't rendered; Ctrl/Cmd+G and Shift+Ctrl/Cmd+G step through matches
+    const matchCount = findMatches.length;
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const key = e.key.toLowerCase();
+
+            if (key === "f") {
+                e.preventDefault();
+                setIsFindOpen(true);
+                setFindIndex(Number.MAX_SAFE_INTEGER);
+                findInputRef.current?.focus();
+                findInputRef.current?.select();
+            } else if (key === "g" && isFindOpen && matchCount > 0) {
+                e.preventDefault();
+                setFindIndex((findPosition + (e.shiftKey ? -1 : 1) + matchCount) % matchCount);
+            }
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [isFindOpen, matchCount, findPosition]);
+
+    // Everyone who can be @mentioned: other collaborators plus the AI
+    const mentionables: Mentionable[] = [
+        ...roomUsers.filter(u => u.id !== user?.uid),
+        { id: "ai", name: "ai" }
+    ];
+
+    const mentionSuggestions: RoomUser[] = mentionQuery
+        ? [
+            ...roomUsers.filter(u => u.id !== user?.uid),
+            { id: "ai", name: "ai", photoURL: null }
+        ].filter(u => u.name.toLowerCase().includes(mentionQuery.query.toLowerCase())).slice(0, 8)
+        : [];
+
+    // Replace the "@query" being typed with the chosen user's name
+    const handleMentionSelect = (mentioned: RoomUser) => {
+        if (!mentionQuery) return;
+
+        const caret = inputRef.current?.selectionStart ?? inputValue.length;
+        const before = inputValue.slice(0, mentionQuery.start);
+        const after = inputValue.slice(caret);
+        const inserted = `@${mentioned.name} `;
+
+        setInputValue(before + inserted + after);
+        setMentionQuery(null);
+
+        // Put the caret right after the inserted mention
+        requestAnimationFrame(() => {
+            const position = before.length + inserted.length;
+            inputRef.current?.focus();
+            inputRef.current?.setSelectionRange(position, position);
+        });
+    };
+
+    // The AI response currently being generated, if any (shared by the whole room)
+    const activeAIMessage = messages.find(m => m.role === "assistant" && (m.isTyping || m.isStreaming));
+
+    const handleStopGeneration = () => {
+        if (!roomId || !activeAIMessage || !canEdit) return;
+
+        cancelAIResponse(roomId, activeAIMessage.id);
+        // Unlock the composer right away; the 'ai-cancelled' event updates the message
+        setIsLoading(false);
+    };
+
+    // Ask for another answer to the prompt that produced the AI message at `index`
+    const handleRegenerate = (index: number) => {
+        if (!roomId || activeAIMessage || !canEdit) return;
+
+        const prompt = messages.slice(0, index).reverse().find(m => m.role === "user");
+        if (!prompt) return;
+
+        setIsLoading(true);
+        regenerateAIResponse(roomId, messages[index].id, prompt.content, getAISettings(chatInfo));
+    };
+
+    // Edit one of our own prompts and re-run the conversation from there
+    const handleEditMessage = (messageId: string, content: string) => {
+        if (!roomId || activeAIMessage || !canEdit) return;
+
+        editMessage(roomId, messageId, content, extractMentions(content, mentionables));
+        if (shouldInvokeAI(chatInfo.aiMode, content)) {
+            setIsLoading(true);
+            requestAIResponse(roomId, content, getAISettings(chatInfo));
+        }
+    };
+
+    // Pull the AI into the discussion, answering the latest user message
+    const handleAskAI = () => {
+        if (!roomId || activeAIMessage || isLoading || !canEdit) return;
+
+        const lastUserMessage = [...messages].reverse().find(m => m.role === "user");
+        if (!lastUserMessage) return;
+
+        setIsLoading(true);
+        requestAIResponse(roomId, lastUserMessage.content, getAISettings(chatInfo));
+    };
+
+    // Apply room settings locally and share them with everyone in the room
+    const handleChatInfoChange = (changes: Partial<ChatInfo>) => {
+        if (!roomId || !canEdit) return;
+
+        setChatInfo(prev => ({ ...prev, ...changes }));
+        updateChatInfo(roomId, changes);
+    };
+
+    const settledMessages = messages.filter(isSettled);
+
+    // Freeze the conversation into a public read-only page
+    const handlePublishSnapshot = async (): Promise<ChatSnapshot> => {
+        if (!roomId) throw new Error("No room to publish");
+
+        const thread = (await loadFullHistory()).filter(isSettled);
+        return publishSnapshot(roomId, {
+            title: chatInfo.title,
+            createdBy: user?.displayName || "Anonymous",
+            personaName: chatInfo.personaName,
+            personaAvatar: chatInfo.personaAvatar,
+            messages: thread.map(m => ({
+                id: m.id,
+                content: m.content,
+                role: m.role,
+                timestamp: m.timestamp,
+                userId: m.userId,
+                userName: m.userName,
+                userPhotoURL: m.userPhotoURL,
+                editedAt: m.editedAt,
+            })),
+        });
+    };
+
+    const handleExport = async (format: ExportFormat) => {
+        if (!roomId) return;
+
+        try {
+            const thread = (await loadFullHistory()).filter(isSettled);
+            // Online users first, since their roles are the most up to date
+            const members = [...roomUsers, ...await getRoomMembers(roomId)];
+            downloadConversation({
+                roomId,
+                chatInfo,
+                participants: members.filter((u, i) => members.findIndex(other => other.id === u.id) === i),
+                messages: thread,
+            }, format);
+        } catch (error) {
+            console.error("Failed to export conversation:", error);
+            toast({ variant: "error", title: `Couldn't export as ${EXPORT_FORMATS[format].label}` });
+        }
+    };
+
+    // Owner only: let someone in, or turn them away
+    const handleJoinRequest = (userId: string, approve: boolean, role: RoomRole) => {
+        if (!roomId) return;
+
+        setJoinRequests(prev => prev.filter(r => r.user.id !== userId));
+        respondToJoinRequest(roomId, userId, approve, role);
+    };
+
+    // Owner only
+    const handleRoleChange = (userId: string, role: RoomRole) => {
+        if (roomId) setUserRole(roomId, userId, role);
+    };
+
+    // Owner only
+    const handleRemoveUser = (userId: string) => {
+        if (roomId) removeUserFromRoom(roomId, userId);
+    };
+
+    // Leave a room we can't get into for a fresh chat
+    const handleLeaveRoom = () => {
+        setAccessDenied(null);
+        setIsAwaitingApproval(false);
+        handleNewChat();
+    };
+
+    // Let the AI summarize the conversation into a title for everyone
+    const handleGenerateTitle = () => {
+        if (!roomId || isGeneratingTitle || !canEdit) return;
+
+        setIsGeneratingTitle(true);
+        requestAITitle(roomId, getAISettings(chatInfo));
+
+        // Don't spin forever if the server never answers
+        setTimeout(() => setIsGeneratingTitle(false), 15000);
+    };
+
+    // Change when the AI answers for everyone in the room
+    const handleAIModeChange = (aiMode: AIMode) => {
+        handleChatInfoChange({ aiMode });
     };
 
     // Enhanced input change handler with more responsive typing indicator
@@ -331,6 +1140,10 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
         const value = e.target.value;
         setInputValue(value);
 
+        // Open mention autocomplete when the caret follows an "@"
+        setMentionQuery(getMentionQuery(value, e.target.selectionStart));
+        setMentionIndex(0);
+
         // Only send typing indicator if we have a value and a roomId
         if (value.trim() && roomId) {
             // Send typing indicator with debouncing
@@ -401,6 +1214,12 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
             console.log(`Created new blank chat with ID: ${newRoomId}`);
         } catch (error) {
             console.error("Failed to create new chat:", error);
+            toast({
+                variant: "error",
+                title: "Couldn't start a new chat",
+                action: { label: "Retry", onClick: () => { handleNewChat(); } },
+                dedupeKey: "new-chat"
+            });
             setIsSwitchingRoom(false);
         }
     };
@@ -430,6 +1249,16 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
         navigate(`/join/${newRoomId}`);
     };
 
+    // Open a search result, scrolled to the matching message if there is one
+    const handleSearchResultSelect = (resultRoomId: string, messageId?: string) => {
+        if (resultRoomId !== roomId) {
+            setIsSwitchingRoom(true);
+            roomCreatedRef.current = true;
+            localStorage.setItem('lastRoomId', resultRoomId);
+        }
+        navigate(`/join/${resultRoomId}`, { state: messageId ? { focusMessageId: messageId } : null });
+    };
+
     // Format the date for display
     const formatDate = (date: Date) => {
         return date.toLocaleDateString(undefined, {
@@ -457,21 +1286,49 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
                 </div>
 
                 {/* New Chat Button */}
-                <div className="p-3">
+                <div className="p-3 flex gap-2">
                     <Button
-                        className="w-full flex items-center justify-start gap-2 bg-gray-700 hover:bg-gray-600"
+                        className="flex-1 flex items-center justify-start gap-2 bg-gray-700 hover:bg-gray-600"
                         onClick={handleNewChat}
                     >
                         <Plus size={16} />
                         {sidebarOpen && <span>New Chat</span>}
                     </Button>
+                    {sidebarOpen && (
+                        <Button
+                            className="bg-gray-700 hover:bg-gray-600"
+                            onClick={() => setImportDialogOpen(true)}
+                            title="Import a conversation"
+                        >
+                            <Upload size={16} />
+                        </Button>
+                    )}
                 </div>
 
                 {/* Current Chat Info */}
                 {sidebarOpen && roomId && (
                     <div className="px-3 py-2">
                         <div className="bg-gray-700 rounded-md p-3 mb-3">
-                            <h2 className="text-sm font-medium mb-1">{chatInfo.title}</h2>
+                            <EditableText
+                                value={chatInfo.title}
+                                onSave={(title) => handleChatInfoChange({ title })}
+                                placeholder="Untitled Chat"
+                                className="text-sm font-medium mb-1 w-full"
+                                inputClassName="text-sm mb-1"
+                                readOnly={!canEdit}
+                            />
+                            {(canEdit || chatInfo.description) && (
+                                <EditableText
+                                    value={chatInfo.description || ""}
+                                    onSave={(description) => handleChatInfoChange({ description })}
+                                    placeholder="Add a description"
+                                    maxLength={200}
+                                    allowEmpty
+                                    className="text-xs text-gray-400 mb-2 w-full"
+                                    inputClassName="text-xs mb-2"
+                                    readOnly={!canEdit}
+                                />
+                            )}
                             <div className="flex items-center gap-2 mb-2">
                                 <span className="text-xs text-gray-400">{formatDate(chatInfo.createdAt)}</span>
                                 <span className="text-xs bg-gray-600 text-gray-300 px-1.5 py-0.5 rounded">
@@ -481,8 +1338,17 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
 
                             {/* Collaborators list */}
                             <div className="mt-2">
-                                <UserList users={roomUsers} currentUser={user} />
+                                <UserList
+                                    users={roomUsers}
+                                    currentUser={user}
+                                    onRoleChange={isOwner ? handleRoleChange : undefined}
+                                    onRemove={isOwner ? handleRemoveUser : undefined}
+                                />
                             </div>
+
+                            {isOwner && (
+                                <JoinRequests requests={joinRequests} onRespond={handleJoinRequest} />
+                            )}
                         </div>
                     </div>
                 )}
@@ -490,11 +1356,13 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
                 {/* Chat History List */}
                 <div className="flex-1 overflow-y-auto p-2">
                     {sidebarOpen && (
-                        <ChatHistory
-                            user={user}
-                            currentRoomId={roomId}
-                            onRoomSelect={handleRoomSelect}
-                        />
+                        <ChatSearch user={user} onResultSelect={handleSearchResultSelect}>
+                            <ChatHistory
+                                user={user}
+                                currentRoomId={roomId}
+                                onRoomSelect={handleRoomSelect}
+                            />
+                        </ChatSearch>
                     )}
                 </div>
 
@@ -544,191 +1412,377 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
                 <div className="bg-gray-800 p-3 flex items-center justify-between border-b border-gray-700">
                     <div className="flex items-center gap-2">
                         <Users size={18} />
-                        <div>
-                            <h2 className="font-medium">{chatInfo.title}</h2>
+                        <div className="min-w-0">
+                            <div className="flex items-center gap-1">
+                                <EditableText
+                                    value={chatInfo.title}
+                                    onSave={(title) => handleChatInfoChange({ title })}
+                                    placeholder="Untitled Chat"
+                                    className="font-medium max-w-md"
+                                    inputClassName="font-medium w-80"
+                                    readOnly={!canEdit}
+                                />
+                                {messages.length > 0 && canEdit && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0 text-gray-400 hover:text-white"
+                                        onClick={handleGenerateTitle}
+                                        disabled={isGeneratingTitle}
+                                        title="Summarize into a title"
+                                    >
+                                        {isGeneratingTitle ? <Loader2 className="animate-spin" size={14} /> : <Wand2 size={14} />}
+                                    </Button>
+                                )}
+                            </div>
                             <div className="text-xs text-gray-400">
                                 {roomUsers.length} {roomUsers.length === 1 ? 'user' : 'users'} online
                             </div>
                         </div>
                     </div>
-                    <Button
-                        variant="ghost"
-                        size="sm"
-                        className="flex gap-2 items-center text-blue-400 hover:text-blue-300 hover:bg-blue-900/30 transition-colors"
-                        onClick={() => setShareDialogOpen(true)}
-                    >
-                        <Share2 size={16} />
-                        <span>Share</span>
-                    </Button>
+                    <div className="flex items-center gap-2">
+                        <ConnectionStatus />
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-gray-300 hover:text-white hover:bg-gray-700"
+                            onClick={openFind}
+                            title="Find in this chat (Ctrl+F)"
+                        >
+                            <Search size={16} />
+                        </Button>
+                        {/* Model answering in this room, opens the room settings */}
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="flex gap-1.5 items-center text-gray-300 hover:text-white hover:bg-gray-700"
+                            onClick={() => setSettingsDialogOpen(true)}
+                            disabled={!canEdit}
+                            title="Room settings"
+                        >
+                            <Settings size={14} />
+                            <span className="text-xs">{getModelLabel(getAISettings(chatInfo).model)}</span>
+                        </Button>
+
+                        {/* AI invocation mode, shared by the whole room */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="flex gap-1.5 items-center text-gray-300 hover:text-white hover:bg-gray-700"
+                                    disabled={!canEdit}
+                                    title="When the AI answers in this room"
+                                >
+                                    <Sparkles size={14} />
+                                    <span className="text-xs">AI: {AI_MODE_LABELS[chatInfo.aiMode || "always"]}</span>
+                                    <ChevronDown size={12} />
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="w-48 bg-gray-800 border-gray-700">
+                                {(Object.keys(AI_MODE_LABELS) as AIMode[]).map((mode) => (
+                                    <DropdownMenuItem
+                                        key={mode}
+                                        className={`text-gray-200 focus:bg-gray-700 ${(chatInfo.aiMode || "always") === mode ? "font-semibold" : ""}`}
+                                        onClick={() => handleAIModeChange(mode)}
+                                    >
+                                        {AI_MODE_LABELS[mode]}
+                                    </DropdownMenuItem>
+                                ))}
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-gray-300 hover:text-white hover:bg-gray-700"
+                                    disabled={settledMessages.length === 0}
+                                    title="Export conversation"
+                                >
+                                    <Download size={16} />
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="w-40 bg-gray-800 border-gray-700">
+                                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                                    <DropdownMenuItem
+                                        key={format}
+                                        className="text-gray-200 focus:bg-gray-700"
+                                        onClick={() => handleExport(format)}
+                                    >
+                                        {EXPORT_FORMATS[format].label}
+                                    </DropdownMenuItem>
+                                ))}
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="flex gap-2 items-center text-blue-400 hover:text-blue-300 hover:bg-blue-900/30 transition-colors"
+                            onClick={() => setShareDialogOpen(true)}
+                        >
+                            <Share2 size={16} />
+                            <span>Share</span>
+                        </Button>
+                    </div>
                 </div>
 
-                {/* Chat Messages */}
-                <div className="flex-1 overflow-y-auto p-4">
-                    {messages.length === 0 ? (
-                        <div className="h-full flex flex-col items-center justify-center text-center p-8">
-                            <h2 className="text-2xl font-bold mb-2">Welcome to CollabGPT</h2>
-                            <p className="text-gray-400 mb-4">
-                                Start a conversation with the AI or collaborate with friends
-                            </p>
-                            {roomId && (
-                                <div className="mb-8 p-3 bg-gray-800 rounded-md">
-                                    <p className="text-sm text-gray-300">Share this room: </p>
-                                    <code className="text-xs bg-gray-700 p-1 rounded">{`${window.location.origin}/join/${roomId}`}</code>
+                {isFindOpen && (
+                    <FindBar
+                        query={findQuery}
+                        onQueryChange={(query) => {
+                            setFindQuery(query);
+                            resetFindPosition();
+                            if (query.trim()) loadHistoryForFind();
+                        }}
+                        author={findAuthor}
+                        onAuthorChange={(author) => {
+                            setFindAuthor(author);
+                            resetFindPosition();
+                            if (author) loadHistoryForFind();
+                        }}
+                        isLoading={isLoadingOlder && !reachedStart}
+                        authors={findAuthors}
+                        matchCount={findMatches.length}
+                        currentIndex={findPosition}
+                        onNext={() => stepFind(1)}
+                        onPrevious={() => stepFind(-1)}
+                        onClose={closeFind}
+                        inputRef={findInputRef}
+                    />
+                )}
+
+                {caughtUpCount !== null && (
+                    <div className="bg-green-900/40 border-b border-green-800 text-green-200 text-sm px-4 py-2 flex items-center gap-2">
+                        <Wifi size={16} className="flex-shrink-0" />
+                        <span className="flex-1">
+                            Reconnected, {caughtUpCount === 0
+                                ? "you're up to date"
+                                : `${caughtUpCount} new message${caughtUpCount === 1 ? "" : "s"}`}
+                        </span>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0 text-green-200 hover:text-white"
+                            onClick={() => setCaughtUpCount(null)}
+                            title="Dismiss"
+                        >
+                            <X size={14} />
+                        </Button>
+                    </div>
+                )}
+
+                {isAwaitingApproval || accessDenied ? (
+                    <RoomAccessNotice denied={accessDenied} onLeave={handleLeaveRoom} />
+                ) : (
+                    <>
+                    {/* Chat Messages */}
+                    <div ref={messagesContainerRef} className="flex-1 overflow-y-auto p-4" onScroll={handleMessagesScroll}>
+                        {visibleMessages.length === 0 ? (
+                            <div className="h-full flex flex-col items-center justify-center text-center p-8">
+                                <h2 className="text-2xl font-bold mb-2">Welcome to CollabGPT</h2>
+                                <p className="text-gray-400 mb-4">
+                                    Start a conversation with the AI or collaborate with friends
+                                </p>
+                                {roomId && (
+                                    <div className="mb-8 p-3 bg-gray-800 rounded-md">
+                                        <p className="text-sm text-gray-300">Share this room: </p>
+                                        <code className="text-xs bg-gray-700 p-1 rounded">{`${window.location.origin}/join/${roomId}`}</code>
+                                    </div>
+                                )}
+                                <div className="grid grid-cols-2 gap-4 max-w-2xl">
+                                    {["What can you help me with?", "Explain quantum computing",
+                                        "Write a poem about AI", "Give me a coding challenge"].map((prompt, i) => (
+                                            <Button
+                                                key={i}
+                                                variant="outline"
+                                                className="p-4 h-auto text-left"
+                                                onClick={() => setInputValue(prompt)}
+                                            >
+                                                {prompt}
+                                            </Button>
+                                        ))}
                                 </div>
-                            )}
-                            <div className="grid grid-cols-2 gap-4 max-w-2xl">
-                                {["What can you help me with?", "Explain quantum computing",
-                                    "Write a poem about AI", "Give me a coding challenge"].map((prompt, i) => (
+                            </div>
+                        ) : (
+                            <div className="space-y-6">
+                                {/* Older history, paged in when scrolling to the top */}
+                                {isLoadingOlder ? (
+                                    <div className="flex justify-center">
+                                        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                                    </div>
+                                ) : hasOlderMessages && (
+                                    <div className="flex justify-center">
                                         <Button
-                                            key={i}
-                                            variant="outline"
-                                            className="p-4 h-auto text-left"
-                                            onClick={() => setInputValue(prompt)}
+                                            variant="ghost"
+                                            size="sm"
+                                            className="text-xs text-gray-400 hover:text-white hover:bg-gray-800"
+                                            onClick={loadOlderMessages}
                                         >
-                                            {prompt}
+                                            Load older messages
                                         </Button>
-                                    ))}
-                            </div>
-                        </div>
-                    ) : (
-                        <div className="space-y-6">
-                            {messages.map((message) => (
-                                <div
-                                    key={message.id}
-                                    className={`flex ${message.userId === user?.uid ? "justify-end" : "justify-start"}`}
-                                >
-                                    <div className="flex items-start gap-2 max-w-3xl">
-                                        {message.userId !== user?.uid && (
-                                            <div className="flex flex-col items-center mt-1">
-                                                {message.userId === "ai" ? (
-                                                    <AIAvatar size={32} />
-                                                ) : (
-                                                    <UserAvatar
-                                                        user={{
-                                                            photoURL: message.userPhotoURL || null,
-                                                            name: message.userName,
-                                                            id: message.userId
-                                                        }}
-                                                        size={32}
-                                                    />
-                                                )}
-                                            </div>
-                                        )}
-                                        <div
-                                            className={`rounded-lg p-4 ${message.userId === user?.uid
-                                                ? "bg-blue-700 text-white"
-                                                : message.role === "assistant"
-                                                    ? "bg-gray-700 text-white"
-                                                    : "bg-gray-800 text-white"
-                                                }`}
-                                        >
-                                            {message.userName && message.userId !== user?.uid && (
-                                                <div className="text-xs font-medium mb-1 text-gray-300">
-                                                    {message.userName}
-                                                </div>
-                                            )}
-
-                                            {message.isTyping ? (
-                                                <div className="flex items-center gap-2 min-h-6">
-                                                    <Loader2 className="h-4 w-4 animate-spin" />
-                                                    <span>CollabGPT is thinking...</span>
-                                                </div>
-                                            ) : message.isError ? (
-                                                <div className="text-red-300">{message.content}</div>
-                                            ) : message.role === "assistant" ? (
-                                                <ReactMarkdown
-                                                    components={{
-                                                        div: ({ node, ...props }) => <div className="prose prose-invert max-w-none" {...props} />
-                                                    }}
-                                                >
-                                                    {message.content}
-                                                </ReactMarkdown>
-                                            ) : (
-                                                <div>{message.content}</div>
-                                            )}
-
-                                            <div className="text-xs text-gray-300 mt-2 text-right">
-                                                {message.timestamp.toLocaleTimeString()}
-                                            </div>
-                                        </div>
                                     </div>
-                                </div>
-                            ))}
-
-                            {/* Typing indicators */}
-                            {typingUsers.size > 0 && (
-                                <div className="space-y-2 mt-2">
-                                    {Array.from(typingUsers.entries())
-                                        .filter(([userId]) => userId !== user?.uid) // Don't show typing indicator for current user
-                                        .map(([userId, userInfo]) => (
-                                            <TypingIndicator
-                                                key={`typing-${userId}`}
-                                                userName={userInfo.name}
-                                                userPhotoURL={userInfo.photoURL}
-                                                userId={userId}
-                                            />
-                                        ))}
-                                </div>
-                            )}
+                                )}
+                                {visibleMessages.map((message, index) => (
+                                    <MessageBubble
+                                        key={message.id}
+                                        message={message}
+                                        currentUserId={user?.uid}
+                                        versionIndex={selectedVersions[message.id]}
+                                        onVersionChange={(versionIndex) => setSelectedVersions(prev => ({
+                                            ...prev,
+                                            [message.id]: versionIndex
+                                        }))}
+                                        onRegenerate={message.role === "assistant" && !activeAIMessage && canEdit
+                                            ? () => handleRegenerate(index)
+                                            : undefined}
+                                        onEdit={message.role === "user" && message.userId === user?.uid && !activeAIMessage && canEdit &&
+                                            (!message.deliveryStatus || message.deliveryStatus === "sent")
+                                            ? (content) => handleEditMessage(message.id, content)
+                                            : undefined}
+                                        onRetry={message.deliveryStatus === "failed"
+                                            ? () => retryMessage(message.id)
+                                            : undefined}
+                                        isHighlighted={message.id === highlightedMessageId || message.id === currentFindMatchId}
+                                        findQuery={isFindOpen ? trimmedFindQuery : undefined}
+                                        persona={{ name: chatInfo.personaName, avatar: chatInfo.personaAvatar }}
+                                    />
+                                ))}
+
+                                {/* Typing indicators */}
+                                {typingUsers.size > 0 && (
+                                    <div className="space-y-2 mt-2">
+                                        {Array.from(typingUsers.entries())
+                                            .filter(([userId]) => userId !== user?.uid) // Don't show typing indicator for current user
+                                            .map(([userId, userInfo]) => (
+                                                <TypingIndicator
+                                                    key={`typing-${userId}`}
+                                                    userName={userInfo.name}
+                                                    userPhotoURL={userInfo.photoURL}
+                                                    userId={userId}
+                                                />
+                                            ))}
+                                    </div>
+                                )}
 
-                            <div ref={messagesEndRef} />
-                        </div>
-                    )}
-                </div>
+                                <div ref={messagesEndRef} />
+                            </div>
+                        )}
+                    </div>
 
-                {/* Input Area */}
-                <div className="p-4 border-t border-gray-800">
-                    <form onSubmit={handleSubmit} className="relative flex gap-2">
-                        <div className="flex w-full items-end space-x-2">
-                            <textarea
-                                value={inputValue}
-                                onChange={handleInputChange}
-                                placeholder="Type your message here..."
-                                className="flex-1 rounded-lg bg-gray-800 border border-gray-700 text-white resize-none min-h-[50px] max-h-[200px] p-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-lg transition-all"
-                                disabled={isLoading}
-                                rows={1}
-                                style={{ height: 'auto', overflowY: 'hidden' }}
-                                onInput={(e) => {
-                                    // Auto-resize the textarea based on content, but limit to max height
-                                    const target = e.target as HTMLTextAreaElement;
-                                    target.style.height = 'auto';
-                                    const newHeight = Math.min(target.scrollHeight, 200);
-                                    target.style.height = `${newHeight}px`;
-
-                                    // Show scrollbar only when content exceeds max height
-                                    target.style.overflowY = target.scrollHeight > 200 ? 'auto' : 'hidden';
-                                }}
-                                onKeyDown={(e) => {
-                                    // Submit on Enter key (unless Shift is pressed for new line)
-                                    if (e.key === 'Enter' && !e.shiftKey) {
-                                        e.preventDefault();
-                                        if (inputValue.trim() !== '') {
-                                            handleSubmit(e as any);
+                    {/* Input Area */}
+                    <div className="p-4 border-t border-gray-800">
+                        <form onSubmit={handleSubmit} className="relative flex gap-2">
+                            {mentionQuery && (
+                                <MentionSuggestions
+                                    users={mentionSuggestions}
+                                    activeIndex={mentionIndex}
+                                    onSelect={handleMentionSelect}
+                                />
+                            )}
+                            <div className="flex w-full items-end space-x-2">
+                                <textarea
+                                    ref={inputRef}
+                                    value={inputValue}
+                                    onChange={handleInputChange}
+                                    placeholder={!canEdit
+                                        ? "You have view-only access to this chat"
+                                        : chatInfo.aiMode === "mention"
+                                            ? "Type your message here... (mention @ai to ask the AI)"
+                                            : "Type your message here..."}
+                                    className="flex-1 rounded-lg bg-gray-800 border border-gray-700 text-white resize-none min-h-[50px] max-h-[200px] p-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-lg transition-all"
+                                    disabled={isLoading || !canEdit}
+                                    rows={1}
+                                    style={{ height: 'auto', overflowY: 'hidden' }}
+                                    onInput={(e) => {
+                                        // Auto-resize the textarea based on content, but limit to max height
+                                        const target = e.target as HTMLTextAreaElement;
+                                        target.style.height = 'auto';
+                                        const newHeight = Math.min(target.scrollHeight, 200);
+                                        target.style.height = `${newHeight}px`;
+
+                                        // Show scrollbar only when content exceeds max height
+                                        target.style.overflowY = target.scrollHeight > 200 ? 'auto' : 'hidden';
+                                    }}
+                                    onKeyDown={(e) => {
+                                        // Navigate mention suggestions while the popup is open
+                                        if (mentionQuery && mentionSuggestions.length > 0) {
+                                            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                                                e.preventDefault();
+                                                const step = e.key === 'ArrowDown' ? 1 : -1;
+                                                setMentionIndex((mentionIndex + step + mentionSuggestions.length) % mentionSuggestions.length);
+                                                return;
+                                            }
+                                            if (e.key === 'Enter' || e.key === 'Tab') {
+                                                e.preventDefault();
+                                                handleMentionSelect(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+                                                return;
+                                            }
+                                            if (e.key === 'Escape') {
+                                                e.preventDefault();
+                                                setMentionQuery(null);
+                                                return;
+                                            }
                                         }
-                                    }
-                                }}
-                                onBlur={() => {
-                                    // Clear typing indicator when input loses focus
-                                    if (roomId && typingTimeoutRef.current) {
-                                        clearTimeout(typingTimeoutRef.current);
-                                        typingTimeoutRef.current = null;
-                                        sendStoppedTypingIndicator(roomId);
-                                    }
-                                }}
-                            />
-                            <Button
-                                type="submit"
-                                disabled={inputValue.trim() === "" || isLoading}
-                                className="bg-blue-600 hover:bg-blue-700 flex-shrink-0 rounded-md p-2 h-[53px] w-[53px] mb-[1px]"
-                            >
-                                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send size={16} />}
-                            </Button>
+
+                                        // Submit on Enter key (unless Shift is pressed for new line)
+                                        if (e.key === 'Enter' && !e.shiftKey) {
+                                            e.preventDefault();
+                                            if (inputValue.trim() !== '') {
+                                                handleSubmit(e as any);
+                                            }
+                                        }
+                                    }}
+                                    onBlur={() => {
+                                        setMentionQuery(null);
+
+                                        // Clear typing indicator when input loses focus
+                                        if (roomId && typingTimeoutRef.current) {
+                                            clearTimeout(typingTimeoutRef.current);
+                                            typingTimeoutRef.current = null;
+                                            sendStoppedTypingIndicator(roomId);
+                                        }
+                                    }}
+                                />
+                                {/* Outside "always" mode the AI only answers when pulled in */}
+                                {(chatInfo.aiMode || "always") !== "always" && !activeAIMessage && canEdit && (
+                                    <Button
+                                        type="button"
+                                        onClick={handleAskAI}
+                                        disabled={isLoading || !messages.some(m => m.role === "user")}
+                                        title="Ask the AI to answer the latest message"
+                                        className="bg-gray-700 hover:bg-gray-600 flex-shrink-0 rounded-md px-3 h-[53px] mb-[1px]"
+                                    >
+                                        <Sparkles size={16} />
+                                        <span>Ask AI</span>
+                                    </Button>
+                                )}
+                                {activeAIMessage && canEdit ? (
+                                    <Button
+                                        type="button"
+                                        onClick={handleStopGeneration}
+                                        title="Stop generating"
+                                        className="bg-red-600 hover:bg-red-700 flex-shrink-0 rounded-md p-2 h-[53px] w-[53px] mb-[1px]"
+                                    >
+                                        <Square size={16} fill="currentColor" />
+                                    </Button>
+                                ) : (
+                                    <Button
+                                        type="submit"
+                                        disabled={inputValue.trim() === "" || isLoading || !canEdit}
+                                        className="bg-blue-600 hover:bg-blue-700 flex-shrink-0 rounded-md p-2 h-[53px] w-[53px] mb-[1px]"
+                                    >
+                                        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send size={16} />}
+                                    </Button>
+                                )}
+                            </div>
+                        </form>
+                        <div className="text-xs text-gray-400 mt-2 text-center">
+                            CollabGPT may produce inaccurate information about people, places, or facts.
                         </div>
-                    </form>
-                    <div className="text-xs text-gray-400 mt-2 text-center">
-                        CollabGPT may produce inaccurate information about people, places, or facts.
                     </div>
-                </div>
+                    </>
+                )}
             </div>
 
             {/* Share Dialog */}
@@ -737,8 +1791,25 @@ const ChatRoom = ({ user, onSignOut, roomId: initialRoomId }: ChatRoomProps) =>
                     roomId={roomId}
                     isOpen={shareDialogOpen}
                     onClose={() => setShareDialogOpen(false)}
+                    visibility={chatInfo.visibility}
+                    onVisibilityChange={isOwner ? (visibility) => handleChatInfoChange({ visibility }) : undefined}
+                    onPublishSnapshot={canEdit && messages.length > 0 ? handlePublishSnapshot : undefined}
                 />
             )}
+
+            <ImportDialog
+                isOpen={importDialogOpen}
+                onClose={() => setImportDialogOpen(false)}
+                onImported={handleRoomSelect}
+            />
+
+            {/* Room Settings Dialog */}
+            <RoomSettingsDialog
+                chatInfo={chatInfo}
+                isOpen={settingsDialogOpen}
+                onClose={() => setSettingsDialogOpen(false)}
+                onSave={handleChatInfoChange}
+            />
         </div>
     );
 };
@@ -5,6 +5,7 @@ import { useNavigate } from "react-router-dom";
 import { SparkleEffect } from "@/components/ui/SparkleEffect";
 import AboutMeModal from "@/components/ui/AboutMeModal";
 import MobileBlocker from "@/components/MobileBlocker";
+import { getInvitePath, takePendingInvite } from "@/lib/invites";
 
 interface LandingPageProps {
     user: User | null;
@@ -23,7 +24,9 @@ function LandingPage({ user, isLoading, onGoogleSignIn, onSignOut }: LandingPage
 
     useEffect(() => {
         if (user) {
-            navigate("/chat");
+            // Back to the invite link that sent the user here to sign in, if any
+            const pendingInvite = takePendingInvite();
+            navigate(pendingInvite ? getInvitePath(pendingInvite.roomId, pendingInvite.token) : "/chat");
         }
     }, [user, navigate]);
 
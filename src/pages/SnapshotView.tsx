@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Camera } from "lucide-react";
+import { MessageBubble } from "@/components/MessageBubble";
+import { getSnapshot, type ChatSnapshot } from "@/lib/snapshots";
+
+// Public, read-only page for a published snapshot; no sign-in required
+function SnapshotView() {
+    const { snapshotId } = useParams<{ snapshotId: string }>();
+    const [snapshot, setSnapshot] = useState<ChatSnapshot | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!snapshotId) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+
+        getSnapshot(snapshotId)
+            .then((result) => {
+                if (cancelled) return;
+                if (result) {
+                    setSnapshot(result);
+                    document.title = `${result.title} · CollabGPT`;
+                } else {
+                    setError("This snapshot doesn't exist or has been removed.");
+                }
+            })
+            .catch((err) => {
+                console.error("Error loading snapshot:", err);
+                if (!cancelled) setError("We couldn't load this snapshot. Please try again later.");
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [snapshotId]);
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-gray-950 text-white flex items-center justify-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-white"></div>
+            </div>
+        );
+    }
+
+    if (error || !snapshot) {
+        return (
+            <div className="min-h-screen bg-gray-950 text-white flex flex-col items-center justify-center gap-4 text-center p-6">
+                <h1 className="text-2xl font-semibold">Snapshot not available</h1>
+                <p className="text-gray-400 max-w-md">{error}</p>
+                <Link to="/" className="text-blue-400 hover:text-blue-300">Go to CollabGPT</Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-950 text-white flex flex-col">
+            <header className="border-b border-gray-800 px-6 py-4 flex items-center justify-between">
+                <div>
+                    <h1 className="text-xl font-semibold">{snapshot.title}</h1>
+                    <p className="text-xs text-gray-400 flex items-center gap-1 mt-1">
+                        <Camera size={12} />
+                        Read-only snapshot shared by {snapshot.createdBy} on {snapshot.createdAt.toLocaleString()}
+                    </p>
+                </div>
+                <Link to="/" className="text-sm text-blue-400 hover:text-blue-300">
+                    Try CollabGPT
+                </Link>
+            </header>
+
+            <main className="flex-1 p-4">
+                {snapshot.messages.length === 0 ? (
+                    <p className="text-center text-gray-400 mt-12">This snapshot has no messages.</p>
+                ) : (
+                    <div className="space-y-4 max-w-4xl mx-auto">
+                        {snapshot.messages.map((message) => (
+                            <MessageBubble
+                                key={message.id}
+                                message={message}
+                                persona={{ name: snapshot.personaName, avatar: snapshot.personaAvatar }}
+                            />
+                        ))}
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+}
+
+export default SnapshotView;